@@ -24,8 +24,8 @@ const readRequiredDigit = fn(
     return match(List.at(chars, i)).with({
       ok: (c) => {
         return match(charToDigit(c)).with({
-          Some: (digit) => makeStep(Fect.ok(digit), i + 1),
-          None: () => makeStep(Fect.err(ExpectedDigit.of()), i + 1),
+          ok: (digit) => makeStep(Fect.ok(digit), i + 1),
+          none: () => makeStep(Fect.err(ExpectedDigit.of()), i + 1),
         });
       },
       err: (err) => makeStep(Fect.err(err), i + 1),
@@ -42,8 +42,8 @@ const extendDigits = fn(
         err: (_) => step,
         ok: (code) => {
           return match(charToDigit(code)).with({
-            None: () => step,
-            Some: (digit) => {
+            none: () => step,
+            ok: (digit) => {
               const combined = makeStep(
                 step.value * 10 + digit,
                 step.next + 1,
@@ -105,7 +105,7 @@ const scan = fn(
             return scan(chars, step.next, acc + step.value);
           },
           err: (err) => {
-            err satisfies NotMul | ExpectedComma | ExpectedCloseParen | ListIndexOutOfBounds;
+            err satisfies NotMul | ExpectedDigit | ExpectedComma | ExpectedCloseParen | ListIndexOutOfBounds;
             console.log(err);
             console.log(`skipping at ${i}`);
             return scan(chars, i + 1, acc);
@@ -86,8 +86,8 @@ export const runInfectionExample = Fect.fn(
         },
       },
     });
-    const repos = fetchRepos(userWithoutInputError); //Fect<GitHubRepo[], {async: true; result: HttpError | PromiseRejected | UnknownException;}>
-    const result = summarize(repos); // const result: Fect<{count: number;top: string[];}, {async: true;result: HttpError | PromiseRejected | UnknownException;}>
+    const repos = fetchRepos(userWithoutInputError); //Fect<GitHubRepo[], {async: true; result: HttpError; defect: PromiseRejected | UnknownException;}>
+    const result = summarize(repos); // const result: Fect<{count: number;top: string[];}, {async: true;result: HttpError; defect: PromiseRejected | UnknownException;}>
     
     
     
@@ -95,15 +95,14 @@ export const runInfectionExample = Fect.fn(
       ok: (value) =>
         `Repos: ${value.count} | Top: ${value.top.join(", ") || "none"}`,
       err: {
-        PromiseRejected: () => "Error: promise rejected",
-        UnknownException: (e) => {
-          if (e.cause instanceof Error) {
-            return `Error: unknown exception ${e.cause.message}`;
-          }
-          return "Error: unknown exception";
-        },
         HttpError: (e) => `Error: HTTP ${e.status} at ${e.where}`,
       },
+      defect: (e) => {
+        if (e.cause instanceof Error) {
+          return `Error: unexpected ${e._tag} ${e.cause.message}`;
+        }
+        return `Error: unexpected ${e._tag}`;
+      },
     });
 
     console.log(message);
@@ -6,10 +6,9 @@ export const mul = fn(
 
 export const charToDigit = fn(
   (c: string) => {
-    if (c >= "0" && c <= "9") {
-      return Option.Some(c.charCodeAt(0) - "0".charCodeAt(0));
-    }
-    return Option.None;
+    const digit = c >= "0" && c <= "9" ? Option.Some(c.charCodeAt(0) - "0".charCodeAt(0)) : Option.None;
+    // Infected, so callers match `ok`/`none` and `fn`s short-circuit on `None`.
+    return Option.toFect(digit);
   },
 );
 
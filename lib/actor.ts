@@ -0,0 +1,171 @@
+import {
+  type AnyPayload,
+  type Defect,
+  defectPayload,
+  type Fect,
+  FectError,
+  type FectErrorClass,
+  type FxShape,
+  makeCoreAsync,
+  type MergeFx,
+  settleThunk,
+  type ThunkReturn,
+} from "./fect.ts";
+import { registerErrors } from "./registry.ts";
+import { RemoteValue } from "./remotevalue.ts";
+
+const ActorStoppedBase: FectErrorClass<"ActorStopped", { name: string; reason?: unknown }> = FectError("ActorStopped")<
+  { name: string; reason?: unknown }
+>();
+
+/** An `ask` reached an actor that was stopped before it got to the message. */
+export class ActorStopped extends ActorStoppedBase {}
+
+registerErrors(ActorStopped);
+
+export type ActorOptions = {
+  name?: string;
+  /** Stop the actor when a handler throws or rejects. Off by default: the asker gets the defect and the actor carries on. */
+  stopOnDefect?: boolean;
+};
+
+/** What a handler sees: the actor's state, which it may read or replace. */
+export type ActorContext<S> = { state: S };
+
+/** Handlers by message tag; `never` lets each one declare its own message type. */
+export type ActorHandlers<S> = Record<string, (context: ActorContext<S>, message: never) => unknown>;
+
+/** A message for handler `K`: its `_tag` plus whatever the handler takes. */
+export type ActorMessage<H, K extends keyof H> = H[K] extends (context: never, message: infer M) => unknown ? { readonly _tag: K } & M
+  : { readonly _tag: K };
+
+/** Carrier returned by `ask`: the handler's value and errors, plus `ActorStopped`. */
+export type AskReturn<T> = ThunkReturn<T> extends Fect<infer A, infer Fx extends FxShape> ? Fect<A, MergeFx<Fx, { async: true; result: ActorStopped }>>
+  : never;
+
+type Envelope = { message: { _tag: string }; reply: RemoteValue<AnyPayload> | undefined };
+
+/**
+ * A mailbox-serialized actor: messages are handled one at a time, in the
+ * order they arrive, by the handler named by their `_tag`. `ask` replies
+ * through a `RemoteValue`; `tell` drops the reply.
+ *
+ * ```ts
+ * const counter = actor({ count: 0 }, {
+ *   add: (ctx, msg: { n: number }) => (ctx.state = { count: ctx.state.count + msg.n }).count,
+ *   reset: (ctx) => void (ctx.state = { count: 0 }),
+ * });
+ * counter.tell({ _tag: "add", n: 2 });
+ * const total = counter.ask({ _tag: "add", n: 3 }); // Fect<number, { async: true; ... }>
+ * ```
+ *
+ * A handler that throws or rejects only fails its own `ask`, unless
+ * `stopOnDefect` is set. Once stopped, queued and later asks settle with
+ * `ActorStopped`, and `done()` settles.
+ */
+export class Actor<S, H extends ActorHandlers<S>> implements Disposable {
+  public readonly name: string;
+
+  private readonly context: ActorContext<S>;
+  private readonly mailbox: Envelope[] = [];
+  private readonly stopOnDefect: boolean;
+  private readonly finished = new RemoteValue<AnyPayload>({ name: "actor-done" });
+  private running = false;
+  private stopped: ActorStopped | undefined = undefined;
+
+  constructor(
+    initialState: S,
+    private readonly handlers: H,
+    options: ActorOptions = {},
+  ) {
+    this.name = options.name ?? "actor";
+    this.context = { state: initialState };
+    this.stopOnDefect = options.stopOnDefect ?? false;
+  }
+
+  /** The current state; handlers replace it through their context. */
+  get state(): S {
+    return this.context.state;
+  }
+
+  /** Number of messages waiting to be handled. */
+  get size(): number {
+    return this.mailbox.length;
+  }
+
+  get isStopped(): boolean {
+    return this.stopped !== undefined;
+  }
+
+  /** Send a message and get its handler's result as an async carrier. */
+  ask<K extends keyof H & string>(message: ActorMessage<H, K>): AskReturn<ReturnType<H[K]>> {
+    const reply = new RemoteValue<AnyPayload>({ name: `${this.name}.${message._tag}` });
+    this.enqueue({ message, reply });
+    return makeCoreAsync(reply.wait(), { async: true, result: [], defect: [] }) as unknown as AskReturn<ReturnType<H[K]>>;
+  }
+
+  /** Send a message without waiting for it. Returns false if the actor has stopped. */
+  tell<K extends keyof H & string>(message: ActorMessage<H, K>): boolean {
+    if (this.stopped) return false;
+    this.enqueue({ message, reply: undefined });
+    return true;
+  }
+
+  /** Stop handling messages. The one in progress finishes; queued asks settle with `ActorStopped`. */
+  stop(reason?: unknown): void {
+    this.halt(reason, { tag: "ok", value: this.context.state });
+  }
+
+  /**
+   * Settles once the actor stops: with its final state after `stop()`, or
+   * with the handler's defect when `stopOnDefect` stopped it.
+   */
+  done(): Fect<S, { async: true; defect: Defect }> {
+    return makeCoreAsync(this.finished.wait(), { async: true, defect: [] }) as unknown as Fect<S, { async: true; defect: Defect }>;
+  }
+
+  [Symbol.dispose](): void {
+    this.stop();
+  }
+
+  private enqueue(envelope: Envelope): void {
+    if (this.stopped) {
+      envelope.reply?.fill({ tag: "err", error: this.stopped });
+      return;
+    }
+    this.mailbox.push(envelope);
+    if (this.running) return;
+    this.running = true;
+    // Handlers never run inside the `ask` or `tell` that sent their message.
+    queueMicrotask(() => void this.drain());
+  }
+
+  private async drain(): Promise<void> {
+    while (this.mailbox.length > 0 && !this.stopped) {
+      const { message, reply } = this.mailbox.shift() as Envelope;
+      const payload = await settleThunk(() => {
+        const handler = this.handlers[message._tag];
+        if (handler === undefined) throw new Error(`Actor '${this.name}' has no handler for '${message._tag}'`);
+        return handler(this.context, message as never);
+      });
+      reply?.fill(payload);
+      if (payload.tag === "err" && payload.defect && this.stopOnDefect) this.halt(payload.error, defectPayload(payload.error));
+    }
+    this.running = false;
+  }
+
+  private halt(reason: unknown, outcome: AnyPayload): void {
+    if (this.stopped) return;
+    this.stopped = ActorStopped.of({ name: this.name, reason });
+    for (const { reply } of this.mailbox.splice(0)) reply?.fill({ tag: "err", error: this.stopped });
+    this.finished.fill(outcome);
+  }
+}
+
+export function actor<S, H extends ActorHandlers<S>>(
+  initialState: S,
+  handlers: H,
+  options: ActorOptions = {},
+): Actor<S, H> {
+  return new Actor(initialState, handlers, options);
+}
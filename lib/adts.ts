@@ -1,4 +1,6 @@
-import { err, ok, type Fect } from "./fect.ts";
+import { defectToThrow, err, type Fect, type FxShape, isPromiseLike, makeCore, ok, type Payload, toCore } from "./fect.ts";
+
+type ErrorOfFx<Fx extends FxShape> = Fx extends { result: infer E } ? E : never;
 
 export type None = { readonly _tag: "None" };
 export type Some<T> = { readonly _tag: "Some"; readonly value: T };
@@ -18,6 +20,13 @@ export function isNone<T>(option: Option<T>): option is None {
   return option._tag === "None";
 }
 
+/** Runtime check: is this value a `Some` or `None`? */
+export function isOption(value: unknown): value is Option<unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const tag = (value as { _tag?: unknown })._tag;
+  return tag === "None" || (tag === "Some" && "value" in value);
+}
+
 export function fromNullable<T>(value: T | null | undefined): Option<T> {
   return value == null ? None : Some(value);
 }
@@ -37,6 +46,92 @@ export function getOrElse<T>(option: Option<T>, fallback: () => T): T {
   return isSome(option) ? option.value : fallback();
 }
 
+export function filter<T, S extends T>(option: Option<T>, predicate: (value: T) => value is S): Option<S>;
+export function filter<T>(option: Option<T>, predicate: (value: T) => boolean): Option<T>;
+export function filter<T>(option: Option<T>, predicate: (value: T) => boolean): Option<T> {
+  return isSome(option) && predicate(option.value) ? option : None;
+}
+
+export function orElse<T, U = T>(option: Option<T>, fallback: () => Option<U>): Option<T | U> {
+  return isSome(option) ? option : fallback();
+}
+
+/** Run `f` on the value of a `Some` for its side effect; the option is returned as is. */
+export function tap<T>(option: Option<T>, f: (value: T) => void): Option<T> {
+  if (isSome(option)) f(option.value);
+  return option;
+}
+
+export function zip<A, B>(a: Option<A>, b: Option<B>): Option<[A, B]> {
+  return isSome(a) && isSome(b) ? Some([a.value, b.value]) : None;
+}
+
+export function zipWith<A, B, R>(a: Option<A>, b: Option<B>, f: (a: A, b: B) => R): Option<R> {
+  return isSome(a) && isSome(b) ? Some(f(a.value, b.value)) : None;
+}
+
+export function toNullable<T>(option: Option<T>): T | null {
+  return isSome(option) ? option.value : null;
+}
+
+export function toUndefined<T>(option: Option<T>): T | undefined {
+  return isSome(option) ? option.value : undefined;
+}
+
+export function fromPredicate<T, S extends T>(value: T, predicate: (value: T) => value is S): Option<S>;
+export function fromPredicate<T>(value: T, predicate: (value: T) => boolean): Option<T>;
+export function fromPredicate<T>(value: T, predicate: (value: T) => boolean): Option<T> {
+  return predicate(value) ? Some(value) : None;
+}
+
+type OptionValues<T> = { -readonly [K in keyof T]: T[K] extends Option<infer V> ? V : never };
+
+/** `Some` of every value when all options are `Some`, `None` otherwise. */
+export function all<T extends readonly Option<unknown>[] | []>(options: T): Option<OptionValues<T>>;
+export function all<T extends Record<string, Option<unknown>>>(options: T): Option<OptionValues<T>>;
+export function all(options: readonly Option<unknown>[] | Record<string, Option<unknown>>): Option<unknown> {
+  const entries = Object.entries(options);
+  if (!entries.every(([, option]) => isSome(option))) return None;
+  const values = entries.map(([key, option]) => [key, (option as Some<unknown>).value]);
+  return Some(Array.isArray(options) ? values.map(([, value]) => value) : Object.fromEntries(values));
+}
+
+/** The first `Some`, in array or key order. */
+export function firstSome<T>(options: readonly Option<T>[] | Record<string, Option<T>>): Option<T> {
+  return Object.values(options).find(isSome) ?? None;
+}
+
+/** Two options are equal when both are `None`, or both `Some` with values equal under `eq` (`Object.is` by default). */
+export function equals<T>(a: Option<T>, b: Option<T>, eq: (a: T, b: T) => boolean = Object.is): boolean {
+  if (isSome(a) && isSome(b)) return eq(a.value, b.value);
+  return isNone(a) && isNone(b);
+}
+
+/**
+ * The payload a `None` travels as: an error payload marked `none`, so it
+ * short-circuits every `fn` it reaches without being taken for an error.
+ */
+function nonePayload(): { tag: "err"; error: None; none: true } {
+  return { tag: "err", error: None, none: true };
+}
+
+/**
+ * A carrier's value as `Some`, or `None` when it holds an error or a `None`. Defects are
+ * not errors to discard: they are thrown (or rejected) like an unhandled
+ * `match` would.
+ */
+export function fromFect<A, Fx extends { async: true } & FxShape>(input: Fect<A, Fx>): Promise<Option<A>>;
+export function fromFect<A, Fx extends FxShape>(input: Fect<A, Fx>): Option<A>;
+export function fromFect(input: Fect<unknown, FxShape>): Option<unknown> | Promise<Option<unknown>> {
+  const read = (payload: Payload<unknown, unknown>): Option<unknown> => {
+    if (payload.tag === "ok") return Some(payload.value);
+    if (payload.defect) throw defectToThrow(payload.error);
+    return None;
+  };
+  const payload = toCore(input).payload as Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>;
+  return isPromiseLike(payload) ? Promise.resolve(payload).then(read) : read(payload);
+}
+
 export function toResult<T, E>(
   option: Option<T>,
   onNone: () => E,
@@ -44,6 +139,21 @@ export function toResult<T, E>(
   return isSome(option) ? ok(option.value) : err(onNone());
 }
 
+/**
+ * Opt an `Option` into the infection pipeline: `Some` becomes a success
+ * carrier, `None` short-circuits every `fn` it reaches. Either way the Fx
+ * gains `{ option: true }`, and `match` asks for a `none` branch. An `fn`
+ * with `{ option: true }` does this for its `Option` inputs.
+ *
+ * ```ts
+ * const digit = toFect(charToDigit(c)); // Fect<number, { option: true }>
+ * match(double(digit)).with({ ok: (n) => n, none: () => 0 });
+ * ```
+ */
+export function toFect<T>(option: Option<T>): Fect<T, { option: true }> {
+  return isSome(option) ? makeCore({ tag: "ok", value: option.value }, { option: true }) : makeCore(nonePayload() as never, { option: true });
+}
+
 export function matchOption<T, R>(
   option: Option<T>,
   handlers: { Some: (value: T) => R; None: () => R },
@@ -56,10 +166,133 @@ export const Option = {
   Some,
   isSome,
   isNone,
+  is: isOption,
   fromNullable,
   map,
   flatMap,
   getOrElse,
+  filter,
+  orElse,
+  tap,
+  zip,
+  zipWith,
+  toNullable,
+  toUndefined,
+  fromPredicate,
+  all,
+  firstSome,
+  equals,
   toResult,
+  fromFect,
+  toFect,
   match: matchOption,
 } as const;
+
+export type Ok<A> = { readonly _tag: "Ok"; readonly value: A };
+export type Err<E> = { readonly _tag: "Err"; readonly error: E };
+/**
+ * A success or failure kept as plain data: unlike a carrier it does not
+ * infect `fn`s, so it can sit in state or go over the wire as is.
+ */
+export type Result<A, E> = Ok<A> | Err<E>;
+
+export function Ok<A>(value: A): Ok<A> {
+  return { _tag: "Ok", value };
+}
+
+export function Err<E>(error: E): Err<E> {
+  return { _tag: "Err", error };
+}
+
+function isOkResult<A, E>(result: Result<A, E>): result is Ok<A> {
+  return result._tag === "Ok";
+}
+
+function isErrResult<A, E>(result: Result<A, E>): result is Err<E> {
+  return result._tag === "Err";
+}
+
+function mapResult<A, E, B>(result: Result<A, E>, f: (value: A) => B): Result<B, E> {
+  return isOkResult(result) ? Ok(f(result.value)) : result;
+}
+
+function mapErrResult<A, E, F>(result: Result<A, E>, f: (error: E) => F): Result<A, F> {
+  return isErrResult(result) ? Err(f(result.error)) : result;
+}
+
+function flatMapResult<A, E, B, F>(result: Result<A, E>, f: (value: A) => Result<B, F>): Result<B, E | F> {
+  return isOkResult(result) ? f(result.value) : result;
+}
+
+function orElseResult<A, E, B, F>(result: Result<A, E>, fallback: (error: E) => Result<B, F>): Result<A | B, F> {
+  return isErrResult(result) ? fallback(result.error) : result;
+}
+
+function getOrElseResult<A, E>(result: Result<A, E>, fallback: (error: E) => A): A {
+  return isOkResult(result) ? result.value : fallback(result.error);
+}
+
+function matchResult<A, E, R>(
+  result: Result<A, E>,
+  handlers: { Ok: (value: A) => R; Err: (error: E) => R },
+): R {
+  return isOkResult(result) ? handlers.Ok(result.value) : handlers.Err(result.error);
+}
+
+function resultToOption<A, E>(result: Result<A, E>): Option<A> {
+  return isOkResult(result) ? Some(result.value) : None;
+}
+
+function resultFromOption<A, E>(option: Option<A>, onNone: () => E): Result<A, E> {
+  return isSome(option) ? Ok(option.value) : Err(onNone());
+}
+
+/**
+ * Settle a carrier into a `Result`: its value as `Ok`, its error as `Err`.
+ * A carrier infected by an `Option` settles as `Ok(Some(value))` or
+ * `Ok(None)`. Defects are thrown (or rejected), as by an unhandled `match`.
+ */
+function resultFromFect<A, Fx extends { async: true; option: true } & FxShape>(
+  input: Fect<A, Fx>,
+): Promise<Result<Option<A>, ErrorOfFx<Fx>>>;
+function resultFromFect<A, Fx extends { async: true } & FxShape>(
+  input: Fect<A, Fx>,
+): Promise<Result<A, ErrorOfFx<Fx>>>;
+function resultFromFect<A, Fx extends { option: true } & FxShape>(
+  input: Fect<A, Fx>,
+): Result<Option<A>, ErrorOfFx<Fx>>;
+function resultFromFect<A, Fx extends FxShape>(input: Fect<A, Fx>): Result<A, ErrorOfFx<Fx>>;
+function resultFromFect(input: Fect<unknown, FxShape>): Result<unknown, unknown> | Promise<Result<unknown, unknown>> {
+  const core = toCore(input);
+  const option = core.fx.option === true;
+  const read = (payload: Payload<unknown, unknown>): Result<unknown, unknown> => {
+    if (payload.tag === "ok") return Ok(option ? Some(payload.value) : payload.value);
+    if (payload.defect) throw defectToThrow(payload.error);
+    if (payload.none) return Ok(None);
+    return Err(payload.error);
+  };
+  const payload = core.payload as Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>;
+  return isPromiseLike(payload) ? Promise.resolve(payload).then(read) : read(payload);
+}
+
+/** Put a `Result` back into the pipeline: `Ok` as a success carrier, `Err` as an error carrier. */
+function resultToFect<A, E>(result: Result<A, E>): Fect<A, { result: E }> {
+  return isOkResult(result) ? ok(result.value) as unknown as Fect<A, { result: E }> : err(result.error);
+}
+
+export const Result = {
+  Ok,
+  Err,
+  isOk: isOkResult,
+  isErr: isErrResult,
+  map: mapResult,
+  mapErr: mapErrResult,
+  flatMap: flatMapResult,
+  orElse: orElseResult,
+  getOrElse: getOrElseResult,
+  toOption: resultToOption,
+  fromOption: resultFromOption,
+  fromFect: resultFromFect,
+  toFect: resultToFect,
+  match: matchResult,
+} as const;
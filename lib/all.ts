@@ -0,0 +1,230 @@
+import {
+  type AnyPayload,
+  defaultMapRejected,
+  defectPayload,
+  type Fect,
+  FectError,
+  type FectErrorClass,
+  type FectLazy,
+  forwardPayload,
+  fromPayload,
+  type FxShape,
+  type InputArgToFx,
+  isPromiseLike,
+  makeCoreRestartable,
+  mergeFxRuntime,
+  type NormalizeFx,
+  type Payload,
+  type PromiseRejected,
+  type Simplify,
+  toCore,
+} from "./fect.ts";
+import { causeOfPayload } from "./cause.ts";
+import { attachCancel, attachSignal, cancelInputs, claimInputs, mergeSignals, raceAbort, signalOf } from "./interrupt.ts";
+import { registerErrors } from "./registry.ts";
+import { attachScopes, mergeScopes, scopesOf } from "./scope.ts";
+import { attachSpans, mergeSpans, spansOf } from "./trace.ts";
+import { deferInputs } from "./service.ts";
+
+type ErrorOfFx<Fx extends FxShape> = Fx extends { result: infer E } ? E : never;
+type DefectOfFx<Fx extends FxShape> = Fx extends { defect: infer D } ? D : never;
+
+type AllInput = readonly unknown[] | Record<string, unknown>;
+/** Lazy inputs are forced eagerly, so they contribute the Fx of what they wrap. */
+type AllArgFx<T> = T extends FectLazy<infer U> ? AllArgFx<U>
+  : InputArgToFx<T, { defect: PromiseRejected }>;
+
+type AllArgValue<T> = T extends FectLazy<infer U> ? AllArgValue<U>
+  : T extends Fect<infer A, infer _Fx extends FxShape> ? A
+  : T extends PromiseLike<infer A> ? A
+  : T;
+
+type AllMembers<T extends AllInput> = T extends readonly unknown[] ? T[number]
+  : T[keyof T];
+
+/** Fx of `all(inputs)`: every input's Fx merged, like `MergeInputFx*` does for `fn`. */
+export type AllFx<T extends AllInput> = NormalizeFx<AllArgFx<AllMembers<T>>>;
+
+/** Fx of `allSettled(inputs)`: async still infects, errors and defects are moved into the slots. */
+export type AllSettledFx<T extends AllInput> = Simplify<Omit<AllFx<T>, "result" | "defect">>;
+
+export type AllValues<T extends AllInput> = {
+  -readonly [K in keyof T]: AllArgValue<T[K]>;
+};
+
+export type AllSettledValues<T extends AllInput> = {
+  -readonly [K in keyof T]: Payload<
+    AllArgValue<T[K]>,
+    ErrorOfFx<AllArgFx<T[K]>> | DefectOfFx<AllArgFx<T[K]>>
+  >;
+};
+
+/**
+ * Fx of `validate(...inputs)`: every input error is collected into one
+ * `Accumulated`; defects are not validation errors and short-circuit as usual.
+ */
+export type ValidateFx<T extends AllInput> = [ErrorOfFx<AllFx<T>>] extends [never] ? AllFx<T>
+  : Simplify<Omit<AllFx<T>, "result"> & { result: Accumulated<ErrorOfFx<AllFx<T>>[]> }>;
+
+const AccumulatedBase: FectErrorClass<
+  "Accumulated",
+  { errors: readonly unknown[] }
+> = FectError("Accumulated")<{ errors: readonly unknown[] }>();
+
+/** Every error reported by the inputs of `validate`, in input order. */
+export class Accumulated<Es extends readonly unknown[] = unknown[]> extends AccumulatedBase {
+  declare readonly errors: Es;
+}
+
+registerErrors(Accumulated);
+
+function settlePayload(
+  payload: AnyPayload | PromiseLike<AnyPayload>,
+): Promise<AnyPayload> {
+  return forwardPayload(payload).then(
+    (resolved) => resolved,
+    (cause): AnyPayload => defectPayload(defaultMapRejected(cause)),
+  );
+}
+
+/**
+ * Shared driver for `all` and `allSettled`: normalize every input to a core,
+ * merge their Fx, and hand the resolved payloads to `join` once (sync when
+ * nothing is async, otherwise after every payload settles).
+ */
+function combine(
+  inputs: AllInput,
+  join: (payloads: AnyPayload[], assemble: (items: unknown[]) => unknown) => AnyPayload,
+  mapFx: (fx: FxShape) => FxShape,
+): Fect<unknown, FxShape> {
+  const keys = Array.isArray(inputs) ? null : Object.keys(inputs);
+  const items: readonly unknown[] = keys === null ? inputs as readonly unknown[] : keys.map((key) => (inputs as Record<string, unknown>)[key]);
+
+  const assemble = (values: unknown[]): unknown => keys === null ? values : Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+
+  const deferred = deferInputs(items, (provided) => combine(assemble(provided) as AllInput, join, mapFx));
+  if (deferred) return deferred;
+
+  const cores = items.map((item) => toCore(item));
+  const signal = mergeSignals(cores.map(signalOf));
+  const scopes = mergeScopes(cores.map(scopesOf));
+  const spans = mergeSpans(cores.map(spansOf));
+  const finish = (carrier: Fect<unknown, FxShape>) => attachSpans(attachScopes(attachSignal(carrier, signal), scopes), spans);
+  const fx = mapFx(
+    cores.reduce<FxShape>((acc, core) => mergeFxRuntime(acc, core.fx), {}),
+  );
+  const payloads = cores.map((core) => core.payload as AnyPayload | PromiseLike<AnyPayload>);
+
+  if (payloads.some(isPromiseLike)) {
+    // Cancelling the joined carrier releases every input it is waiting on;
+    // reading it again claims them once more.
+    let release = (_reason: unknown) => {};
+    const start = () => {
+      claimInputs(cores);
+      let released = false;
+      release = (reason) => {
+        if (released) return;
+        released = true;
+        cancelInputs(cores, reason);
+      };
+      return raceAbort(Promise.all(payloads.map(settlePayload)).then((resolved) => join(resolved, assemble)), signal);
+    };
+    return attachCancel(finish(makeCoreRestartable(start(), start, fx)), (reason) => release(reason));
+  }
+
+  return finish(fromPayload(join(payloads as AnyPayload[], assemble), fx));
+}
+
+/**
+ * Join several inputs into one carrier of a tuple (or record).
+ *
+ * Inputs may be plain values, `Fect` carriers, `FectLazy` wrappers or
+ * `PromiseLike` values. Their Fx are merged exactly like `fn` merges its
+ * inputs, and the first error (in input order) short-circuits the join.
+ *
+ * ```ts
+ * const both = all([loadUser(id), loadRepos(id)]);
+ * const named = all({ user: loadUser(id), repos: loadRepos(id) });
+ * ```
+ */
+export function all<T extends readonly unknown[] | []>(
+  inputs: T,
+): Fect<AllValues<T>, AllFx<T>>;
+export function all<T extends Record<string, unknown>>(
+  inputs: T,
+): Fect<Simplify<AllValues<T>>, AllFx<T>>;
+export function all(inputs: AllInput): Fect<unknown, FxShape> {
+  return combine(
+    inputs,
+    (payloads, assemble) => {
+      const firstErr = payloads.find((payload) => payload.tag === "err");
+      if (firstErr) return firstErr;
+      return {
+        tag: "ok",
+        value: assemble(payloads.map((payload) => (payload as { value: unknown }).value)),
+      };
+    },
+    (fx) => fx,
+  );
+}
+
+/**
+ * Like `all`, but never short-circuits: every slot holds its own
+ * `{ tag: "ok", value }` or `{ tag: "err", error }` payload, and the
+ * resulting carrier only keeps the async infection.
+ */
+export function allSettled<T extends readonly unknown[] | []>(
+  inputs: T,
+): Fect<AllSettledValues<T>, AllSettledFx<T>>;
+export function allSettled<T extends Record<string, unknown>>(
+  inputs: T,
+): Fect<Simplify<AllSettledValues<T>>, AllSettledFx<T>>;
+export function allSettled(inputs: AllInput): Fect<unknown, FxShape> {
+  return combine(
+    inputs,
+    (payloads, assemble) => ({ tag: "ok", value: assemble(payloads) }),
+    ({ result: _result, defect: _defect, ...fx }) => fx,
+  );
+}
+
+/**
+ * Join inputs like `all`, but instead of stopping at the first failure,
+ * collect every error payload into a single `Accumulated` error.
+ *
+ * ```ts
+ * const form = validate(checkEmail(email), checkPassword(password));
+ * match(form).with({
+ *   ok: ([email, password]) => signup(email, password),
+ *   err: { Accumulated: (e) => e.errors.map((problem) => problem._tag) },
+ * });
+ * ```
+ */
+export function validate<T extends unknown[]>(
+  ...inputs: T
+): Fect<AllValues<T>, ValidateFx<T>>;
+export function validate(...inputs: unknown[]): Fect<unknown, FxShape> {
+  return combine(
+    inputs,
+    (payloads, assemble) => {
+      const defect = payloads.find((payload) => payload.tag === "err" && payload.defect);
+      if (defect) return defect;
+      const failed = payloads.flatMap((payload) => payload.tag === "err" && !payload.none ? [payload] : []);
+      if (failed.length > 0) {
+        return {
+          tag: "err",
+          error: Accumulated.of({ errors: failed.map((payload) => payload.error) }),
+          cause: { _tag: "Parallel", causes: failed.map(causeOfPayload) },
+        };
+      }
+      // Without an error to report, a `None` input makes the whole join `None`.
+      const none = payloads.find((payload) => payload.tag === "err");
+      if (none) return none;
+      return {
+        tag: "ok",
+        value: assemble(payloads.map((payload) => (payload as { value: unknown }).value)),
+      };
+    },
+    // Input errors are collected into `Accumulated` rather than passed on.
+    ({ result: _result, ...fx }) => fx,
+  );
+}
@@ -0,0 +1,122 @@
+import { type AnyPayload, type Fect, type FectLazy, fromPayload, type FxShape, isPromiseLike, propagate, toCore } from "./fect.ts";
+import { deferInputs } from "./service.ts";
+
+/**
+ * Where an error came from and what it passed through. `Fail` is the error
+ * itself, `Annotated` adds a line of context around an inner cause, and
+ * `Parallel` holds the causes of errors collected side by side (`validate`).
+ */
+export type Cause =
+  | { readonly _tag: "Fail"; readonly error: unknown }
+  | { readonly _tag: "Annotated"; readonly context: string; readonly cause: Cause }
+  | { readonly _tag: "Parallel"; readonly causes: readonly Cause[] };
+
+/** The cause carried by an error payload; a bare `Fail` when nothing was annotated. */
+export function causeOfPayload(payload: { error: unknown; cause?: Cause }): Cause {
+  return payload.cause ?? { _tag: "Fail", error: payload.error };
+}
+
+/** Wrap the cause of an error payload in `context`; success payloads pass through. */
+export function annotatePayload(payload: AnyPayload, context: string): AnyPayload {
+  if (payload.tag === "ok") return payload;
+  return {
+    ...payload,
+    cause: { _tag: "Annotated", context, cause: causeOfPayload(payload) },
+  };
+}
+
+/**
+ * Add a line of context to the cause of an error carrier. The error itself
+ * (and its `_tag`) is unchanged, so existing `match` handlers keep working;
+ * read the context through the handler's second argument or `causeOf`.
+ *
+ * ```ts
+ * const profile = annotate(loadUser(id), "loading user profile");
+ * match(profile).with({
+ *   ok: render,
+ *   err: { NotFound: (e, cause) => console.error(prettyCause(cause)) },
+ * });
+ * ```
+ */
+export function annotate<A, Fx extends FxShape>(
+  input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
+  context: string,
+): Fect<A, Fx>;
+export function annotate(input: unknown, context: string): Fect<unknown, FxShape> {
+  const deferred = deferInputs([input], ([provided]) => annotate(provided as Fect<unknown, FxShape>, context));
+  if (deferred) return deferred;
+
+  const core = toCore(input);
+  const payload = core.payload as AnyPayload | PromiseLike<AnyPayload>;
+  const carrier = fromPayload(
+    isPromiseLike(payload) ? Promise.resolve(payload).then((settled) => annotatePayload(settled, context)) : annotatePayload(payload, context),
+    core.fx,
+  );
+  return propagate(carrier, core);
+}
+
+/** The cause of an error carrier, or `undefined` when it succeeded or settled as `None`. */
+export function causeOf<A, Fx extends { async: true } & FxShape>(
+  input: Fect<A, Fx>,
+): Promise<Cause | undefined>;
+export function causeOf<A, Fx extends FxShape>(
+  input: Fect<A, Fx>,
+): Cause | undefined;
+export function causeOf(
+  input: Fect<unknown, FxShape>,
+): Cause | undefined | Promise<Cause | undefined> {
+  const read = (payload: AnyPayload) => payload.tag === "err" && !payload.none ? causeOfPayload(payload) : undefined;
+  const payload = input.payload as AnyPayload | PromiseLike<AnyPayload>;
+  return isPromiseLike(payload) ? Promise.resolve(payload).then(read) : read(payload);
+}
+
+/** JSON for display; values JSON cannot encode (bigints, cycles) fall back to `String`. */
+function toJson(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  if (typeof error !== "object" || error === null) return String(error);
+
+  const { _tag, ...fields } = error as { _tag?: unknown; cause?: unknown };
+  if (typeof _tag !== "string") return toJson(error);
+  if (fields.cause instanceof Error) return `${_tag}: ${fields.cause.message}`;
+  const rest = Object.keys(fields).length > 0 ? ` ${toJson(fields)}` : "";
+  return `${_tag}${rest}`;
+}
+
+/**
+ * Render a cause as a tree, outermost context first:
+ *
+ * ```text
+ * rendering page
+ * └─ loading user profile
+ *    └─ NotFound {"id":"42"}
+ * ```
+ */
+export function prettyCause(cause: Cause): string {
+  const lines: string[] = [];
+  const visit = (node: Cause, prefix: string, childPrefix: string) => {
+    if (node._tag === "Fail") {
+      lines.push(prefix + describeError(node.error));
+      return;
+    }
+    if (node._tag === "Annotated") {
+      lines.push(prefix + node.context);
+      visit(node.cause, childPrefix + "└─ ", childPrefix + "   ");
+      return;
+    }
+    lines.push(prefix + `${node.causes.length} errors`);
+    node.causes.forEach((child, i) => {
+      const last = i === node.causes.length - 1;
+      visit(child, childPrefix + (last ? "└─ " : "├─ "), childPrefix + (last ? "   " : "│  "));
+    });
+  };
+  visit(cause, "", "");
+  return lines.join("\n");
+}
@@ -15,7 +15,15 @@
 // - `match(fect).with({ ok, err })` discharges a carrier. For async carriers
 //   it returns a Promise. No manual unwrapping needed — JS auto-flattens.
 
+import type { Option } from "./adts.ts";
+import type { Cause } from "./cause.ts";
 import { fn } from "./fn.ts";
+import { attachSignal, inheritCancel, signalOf } from "./interrupt.ts";
+import type { RetriesExhausted } from "./retry.ts";
+import type { Clock, Schedule } from "./schedule.ts";
+import { attachScopes, scopesOf } from "./scope.ts";
+import type { TimeoutError } from "./timeout.ts";
+import { attachSpans, spansOf } from "./trace.ts";
 
 // ===== Utility types =====
 
@@ -32,14 +40,18 @@ export type PromiseRejected = { _tag: "PromiseRejected"; cause: unknown };
 /** Default defect tag used when handler execution throws in infected flows. */
 export type UnknownException = { _tag: "UnknownException"; cause: unknown };
 
+/** Defects `fn` reports by default: a rejected promise or a thrown exception. */
+export type Defect = PromiseRejected | UnknownException;
+
 /** Pull the error type out of an Fx record's `result` slot. */
 type ErrorOfFx<Fx extends FxShape> = Fx extends { result: infer E } ? E : never;
+type DefectOfFx<Fx extends FxShape> = Fx extends { defect: infer D } ? D : never;
 
 /** Collect all keys across every member of a union. */
 type KeysOfUnion<T> = T extends unknown ? keyof T : never;
 
 /** Flatten a union-of-records into a single record. */
-type NormalizeFx<Fx extends FxShape> = Simplify<
+export type NormalizeFx<Fx extends FxShape> = Simplify<
   {
     [K in KeysOfUnion<Fx>]: Fx extends Record<K, infer V> ? V : never;
   }
@@ -50,7 +62,7 @@ type ValueAt<Fx, K extends PropertyKey> = Fx extends Record<K, infer V> ? V
   : never;
 
 /** Merge two Fx records, unioning the value types at each key. */
-type MergeFx<A extends FxShape, B extends FxShape> = NormalizeFx<
+export type MergeFx<A extends FxShape, B extends FxShape> = NormalizeFx<
   {
     [K in KeysOfUnion<A> | KeysOfUnion<B>]: ValueAt<A, K> | ValueAt<B, K>;
   }
@@ -67,17 +79,27 @@ const FECT = Symbol("fect");
 const FECT_TYPE = Symbol("fect_type");
 const FAIL = Symbol("fect_fail");
 const FECT_LAZY = Symbol("fect_lazy");
+/** Method through which a value turns itself into a carrier when passed as an input. */
+export const TO_FECT: unique symbol = Symbol("fect_to_fect");
 
 // ===== Payload & core types =====
 
-type Payload<A, E> =
+/**
+ * `defect` marks errors from the `defect` channel (throws, rejections) rather
+ * than `result`; `none` marks a `None` from an `Option` input, which
+ * short-circuits like an error but is not one.
+ */
+export type Payload<A, E> =
   | { tag: "ok"; value: A }
-  | { tag: "err"; error: E };
+  | { tag: "err"; error: E; cause?: Cause; defect?: boolean; none?: boolean };
+
+/** A payload of any value and error, for code that only inspects its tag. */
+export type AnyPayload = Payload<unknown, unknown>;
 
 export interface Fect<A, Fx extends FxShape = {}> {
   readonly [FECT]: true;
   readonly [FECT_TYPE]: { readonly _fx: Fx };
-  readonly payload: Payload<A, ErrorOfFx<Fx>>;
+  readonly payload: Payload<A, ErrorOfFx<Fx> | DefectOfFx<Fx>>;
   readonly fx: Fx;
 }
 
@@ -96,6 +118,15 @@ export type FectLazy<T> = {
   force: () => T;
 };
 
+/**
+ * A value that becomes a carrier of its own when passed as an input, such as
+ * a `RemoteValue` whose timeouts are domain errors. Other rejections go
+ * through `mapRejected` like a plain promise's.
+ */
+export type FectSource<A, Fx extends FxShape> = {
+  [TO_FECT](mapRejected: (cause: unknown) => unknown): Fect<A, Fx>;
+};
+
 type LazyArg<T> = T | FectLazy<T>;
 type LazyArgs<TArgs extends unknown[]> = {
   [K in keyof TArgs]: LazyArg<TArgs[K]>;
@@ -117,21 +148,25 @@ type FectA<T> = T extends Fect<infer A, infer _Fx extends FxShape> ? A
 
 type FectFx<T> = T extends Fect<any, infer Fx extends FxShape> ? Fx : {};
 
-type DefectFx<D> = D extends never ? {} : { result: D };
+/**
+ * `D` is an Fx fragment such as `{ defect: Defect }` (see `FnDefect`). Its
+ * `option` key only marks the `option` mode and is left to the inputs.
+ */
+type DefectFx<D> = D extends FxShape ? Omit<D, "option"> : {};
 
 /** Internal: compute the raw return type. */
 type FnReturn_<TIn, TOut, D> = Fect<
   FectA<ToFectOut<TOut>>,
   MergeFx<
     FectFx<ToFect<TIn>>,
-    IsPromise<TOut> extends true
-      ? MergeFx<MergeFx<FectFx<ToFectOut<TOut>>, { async: true }>, DefectFx<D>>
+    IsPromise<TOut> extends true ? MergeFx<MergeFx<FectFx<ToFectOut<TOut>>, { async: true }>, DefectFx<D>>
+      : D extends { async: true } ? MergeFx<FectFx<ToFectOut<TOut>>, DefectFx<D>>
       : FectFx<ToFectOut<TOut>>
   >
 >;
 
 /** Force TS to resolve the alias so hovers show `Fect<A, Fx>` not `FnReturn<…>`. */
-export type FnReturn<TIn, TOut, D = never> = FnReturn_<TIn, TOut, D> extends
+export type FnReturn<TIn, TOut, D = Record<never, never>> = FnReturn_<TIn, TOut, D> extends
   Fect<infer A, infer Fx extends FxShape> ? Fect<A, Fx> : never;
 
 type HasInfectedOut<T> =
@@ -139,14 +174,17 @@ type HasInfectedOut<T> =
     ? false
     : true;
 
-export type FnMaybeRawReturn<TIn, TOut, D> = HasInfectedOut<TOut> extends true
-  ? FnReturn<TIn, TOut, D>
+export type FnMaybeRawReturn<TIn, TOut, D> = HasInfectedOut<TOut> extends true ? FnReturn<TIn, TOut, D>
+  : D extends { async: true } ? FnReturn<TIn, TOut, D>
   : TOut;
 
-type InputArgToFx<TArg, D> = TArg extends Fect<any, infer Fx extends FxShape>
+export type InputArgToFx<TArg, D> = TArg extends Fect<any, infer Fx extends FxShape>
   ? Fx
   : TArg extends FectLazy<any> ? { fectLazy: true }
-  : TArg extends PromiseLike<any> ? { async: true; result: D }
+  : TArg extends FectSource<unknown, infer Fx extends FxShape> ? MergeFx<Fx, DefectFx<D>>
+  : TArg extends PromiseLike<any> ? MergeFx<{ async: true }, DefectFx<D>>
+  : TArg extends AsyncIterable<unknown> ? MergeFx<{ async: true; stream: true }, DefectFx<D>>
+  : TArg extends Option<unknown> ? Slot<"option", D extends { option: true } ? true : never>
   : {};
 
 export type MergeInputFx2<A, B, D> = MergeFx<
@@ -198,15 +236,52 @@ export type MergeInputFx12<A, B, C, DArg, E, F, G, H, I, J, K, L, D> = MergeFx<
 
 // ===== Runtime helpers =====
 
+/** Tag reported for an error: its `_tag`, or `typeof` for untagged errors. */
+export function errorTagOf(error: unknown): string {
+  if (typeof error === "object" && error !== null) {
+    const tag = (error as { _tag?: unknown })._tag;
+    if (typeof tag === "string") return tag;
+  }
+  return typeof error;
+}
+
+/** Add the tag of an error payload to the `result` or `defect` list of a runtime fx. */
+function recordPayload(fx: FxShape, payload: Payload<unknown, unknown>): void {
+  if (payload.tag === "ok") return;
+  // A `None` is the `option` infection, not an error.
+  if (payload.none) {
+    fx.option = true;
+    return;
+  }
+  const key = payload.defect ? "defect" : "result";
+  const tag = errorTagOf(payload.error);
+  const tags = fx[key];
+  if (!Array.isArray(tags)) fx[key] = [tag];
+  else if (!tags.includes(tag)) tags.push(tag);
+}
+
+/** Settled payloads of async carriers, so `inspect` can tell pending from settled. */
+const settledPayloads = new WeakMap<object, Payload<unknown, unknown>>();
+
+/** The payload of a carrier if it has settled, `undefined` while pending. */
+export function settledPayloadOf(
+  carrier: Fect<unknown, FxShape>,
+): Payload<unknown, unknown> | undefined {
+  const payload = carrier.payload as Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>;
+  return isPromiseLike(payload) ? settledPayloads.get(carrier) : payload;
+}
+
 export function makeCore<A, Fx extends FxShape>(
   payload: Payload<A, ErrorOfFx<Fx>>,
   fx: Fx,
 ): Fect<A, Fx> {
+  const own = mergeFxRuntime(fx, {});
+  recordPayload(own, payload);
   return {
     [FECT]: true,
     [FECT_TYPE]: undefined as unknown as { readonly _fx: Fx },
     payload,
-    fx,
+    fx: own as Fx,
   };
 }
 
@@ -214,17 +289,208 @@ export function makeCore<A, Fx extends FxShape>(
  * Build a carrier whose payload is actually a Promise at runtime.
  * The type system sees a resolved Payload — this is a deliberate lie that
  * lets async be just another Fx infection rather than a separate carrier type.
+ * The runtime fx picks up the error tag once the payload settles.
  */
 export function makeCoreAsync<A, Fx extends FxShape>(
   payload: Promise<Payload<any, any>>,
   fx: Fx,
 ): Fect<A, Fx> {
-  return {
+  const own = mergeFxRuntime(fx, { async: true });
+  const carrier: Fect<A, Fx> = {
     [FECT]: true,
     [FECT_TYPE]: undefined as unknown as { readonly _fx: Fx },
     payload: payload as unknown as Payload<A, ErrorOfFx<Fx>>,
-    fx,
+    fx: own as Fx,
   };
+  payload.then((settled) => {
+    recordPayload(own, settled);
+    settledPayloads.set(carrier, settled);
+  }, () => {});
+  return carrier;
+}
+
+/**
+ * Build a carrier from a payload read off another carrier: `makeCoreAsync`
+ * while it is still pending, `makeCore` once settled.
+ */
+export function fromPayload(
+  payload: Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>,
+  fx: FxShape,
+): Fect<unknown, FxShape> {
+  if (isPromiseLike(payload)) return makeCoreAsync(Promise.resolve(payload), fx);
+  // The error type lives in the runtime fx lists, not in `FxShape`.
+  return makeCore(payload as Payload<unknown, never>, fx);
+}
+
+/**
+ * Give `carrier`, built to wrap `source`, what travels alongside its
+ * payload: the signal (`source`'s unless given), open scopes, spans and
+ * cancel handle of `source`.
+ */
+export function propagate<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  source: Fect<unknown, FxShape>,
+  signal: AbortSignal | undefined = signalOf(source),
+): T {
+  return inheritCancel(attachSpans(attachScopes(attachSignal(carrier, signal), [...scopesOf(source)]), spansOf(source)), source);
+}
+
+/**
+ * Like `makeCoreAsync`, but `run` only starts once the payload is first
+ * awaited, so a carrier can describe work it has not started, such as a
+ * stream it collects on demand.
+ */
+export function makeCoreLazy<A, Fx extends FxShape>(
+  run: () => Promise<Payload<unknown, unknown>>,
+  fx: Fx,
+): Fect<A, Fx> {
+  const own = mergeFxRuntime(fx, { async: true });
+  let started: Promise<Payload<unknown, unknown>> | undefined;
+  const payload: PromiseLike<Payload<unknown, unknown>> = {
+    then(onfulfilled, onrejected) {
+      if (started === undefined) {
+        started = run();
+        markStarted(carrier, started);
+        started.then((settled) => {
+          recordPayload(own, settled);
+          settledPayloads.set(carrier, settled);
+        }, () => {});
+      }
+      return started.then(onfulfilled, onrejected);
+    },
+  };
+  const carrier: Fect<A, Fx> = {
+    [FECT]: true,
+    [FECT_TYPE]: undefined as unknown as { readonly _fx: Fx },
+    payload: payload as unknown as Payload<A, ErrorOfFx<Fx>>,
+    fx: own as Fx,
+  };
+  unstartedCarriers.add(carrier);
+  return carrier;
+}
+
+/** A run of restartable work: reads still waiting on it, and how to drop or forward it. */
+type Restartable = {
+  readers: () => number;
+  restart: () => void;
+  forward: () => Promise<Payload<unknown, unknown>>;
+};
+
+/** Side table keyed by the payloads of `makeCoreRestartable` carriers. */
+const restartables = new WeakMap<object, Restartable>();
+
+/**
+ * Like `makeCoreAsync` for work that can run again: `first` is the run
+ * already under way, and once `restartCarrier` drops an unsettled run the
+ * next read starts a fresh one with `run`. Reads of the payload are counted
+ * per run, so cancelling callers can tell whether anyone still waits on it.
+ */
+export function makeCoreRestartable<A, Fx extends FxShape>(
+  first: Promise<Payload<unknown, unknown>>,
+  run: () => Promise<Payload<unknown, unknown>>,
+  fx: Fx,
+): Fect<A, Fx> {
+  const own = mergeFxRuntime(fx, { async: true });
+  let current: Promise<Payload<unknown, unknown>> | undefined;
+  let readers = 0;
+  const start = (started: Promise<Payload<unknown, unknown>>) => {
+    current = started;
+    readers = 0;
+    started.then((settled) => {
+      if (current !== started) return;
+      recordPayload(own, settled);
+      settledPayloads.set(carrier, settled);
+    }, () => {});
+    return started;
+  };
+  const forward = () => current ?? start(run());
+  const payload: PromiseLike<Payload<unknown, unknown>> = {
+    then(onfulfilled, onrejected) {
+      const started = forward();
+      readers += 1;
+      const done = () => {
+        if (current === started) readers -= 1;
+      };
+      started.then(done, done);
+      return started.then(onfulfilled, onrejected);
+    },
+  };
+  const carrier: Fect<A, Fx> = {
+    [FECT]: true,
+    [FECT_TYPE]: undefined as unknown as { readonly _fx: Fx },
+    payload: payload as unknown as Payload<A, ErrorOfFx<Fx>>,
+    fx: own as Fx,
+  };
+  restartables.set(payload, {
+    readers: () => readers,
+    restart: () => {
+      if (!settledPayloads.has(carrier)) current = undefined;
+    },
+    forward,
+  });
+  start(first);
+  return carrier;
+}
+
+function restartableOf(carrier: Fect<unknown, FxShape>): Restartable | undefined {
+  const payload: unknown = carrier.payload;
+  return typeof payload === "object" && payload !== null ? restartables.get(payload) : undefined;
+}
+
+/** Reads still waiting on the current run of a restartable carrier; 0 for any other carrier. */
+export function readersOf(carrier: Fect<unknown, FxShape>): number {
+  return restartableOf(carrier)?.readers() ?? 0;
+}
+
+/** Drop the unsettled run of a restartable carrier, so its next read starts the work again. */
+export function restartCarrier(carrier: Fect<unknown, FxShape>): void {
+  restartableOf(carrier)?.restart();
+}
+
+/**
+ * Await a payload for a call that claimed its carrier, or for an observer,
+ * without counting as one of its readers.
+ */
+export function forwardPayload(
+  payload: Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>,
+): Promise<Payload<unknown, unknown>> {
+  const restartable = typeof payload === "object" && payload !== null ? restartables.get(payload) : undefined;
+  return restartable ? restartable.forward() : Promise.resolve(payload);
+}
+
+/** Carriers from `makeCoreLazy` whose payload nobody has awaited yet. */
+const unstartedCarriers = new WeakSet<object>();
+
+/** Runtime check: is this a lazy carrier whose work has not started yet? */
+export function isUnstarted(value: unknown): boolean {
+  return typeof value === "object" && value !== null && unstartedCarriers.has(value);
+}
+
+/** Listeners waiting for an unstarted carrier to be run by a consumer. */
+const runListeners = new WeakMap<object, Array<(payload: Payload<unknown, unknown>) => void>>();
+
+/**
+ * Call `listener` with the payload of an unstarted lazy carrier once a
+ * consumer has run it and it settled, without running it here.
+ */
+export function onRun(
+  carrier: Fect<unknown, FxShape>,
+  listener: (payload: Payload<unknown, unknown>) => void,
+): void {
+  const listeners = runListeners.get(carrier) ?? [];
+  listeners.push(listener);
+  runListeners.set(carrier, listeners);
+}
+
+/** Record that a consumer started a lazy carrier; `onRun` listeners hear how `settled` ends. */
+export function markStarted(carrier: Fect<unknown, FxShape>, settled: PromiseLike<Payload<unknown, unknown>>): void {
+  unstartedCarriers.delete(carrier);
+  const listeners = runListeners.get(carrier);
+  if (!listeners) return;
+  runListeners.delete(carrier);
+  settled.then((payload) => {
+    for (const listener of listeners) listener(payload);
+  }, () => {});
 }
 
 /** Runtime check: is this value a `Fect` carrier? */
@@ -253,6 +519,15 @@ export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
   );
 }
 
+/** Runtime check: does this value turn itself into a carrier? */
+export function isFectSource(value: unknown): value is FectSource<unknown, FxShape> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Partial<FectSource<unknown, FxShape>>)[TO_FECT] === "function"
+  );
+}
+
 /** Runtime check: is this value a `FectLazy` wrapper? */
 export function isFectLazy(value: unknown): value is FectLazy<unknown> {
   return (
@@ -323,16 +598,102 @@ export function forceFectLazy<T>(input: T | FectLazy<T>): T {
   return current as T;
 }
 
+const tagList = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+/** Tags listed under `key` (`result`, `defect` or `requires`) in a runtime fx. */
+export function fxTags(fx: FxShape, key: string): string[] {
+  return tagList(fx[key]) as string[];
+}
+
+/**
+ * Merge two runtime fx records. Flags such as `async` are `true`; tag lists
+ * (`result`, `defect`, `requires`) are unioned into fresh arrays, so the
+ * merged record can be updated without touching its sources.
+ */
 export function mergeFxRuntime(a: FxShape, b: FxShape): FxShape {
-  return { ...a, ...b };
+  const merged: FxShape = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const [left, right] = [a[key], b[key]];
+    merged[key] = Array.isArray(left) || Array.isArray(right) ? [...new Set([...tagList(left), ...tagList(right)])] : key in b ? right : left;
+  }
+  return merged;
 }
 
-export type FnOptions<DRejected = PromiseRejected, DThrown = UnknownException> = {
+export type FnOptions<
+  DRejected = PromiseRejected,
+  DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
+> = {
   mapDefect?: (cause: unknown) => DRejected | DThrown;
   mapRejected?: (cause: unknown) => DRejected;
   mapThrown?: (cause: unknown) => DThrown;
+  /** Settle async calls with a `TimeoutError` once they run longer than this. */
+  timeoutMs?: TimeoutMs;
+  /**
+   * Re-run calls that fail, sync throws and `Fail`s included, as directed by
+   * the schedule. Calls with a schedule always settle async.
+   */
+  retry?: RetrySchedule;
+  /** Clock used to wait between retries. */
+  clock?: Clock;
+  /** Span name for tracing; defaults to the handler's function name. */
+  name?: string;
+  /** Context added to the `Cause` of any error this call returns or passes on. */
+  annotate?: string;
+  /**
+   * Settle as soon as any async input fails and cancel the inputs still
+   * pending (default). `false` waits for every input and reports the first
+   * error in input order.
+   */
+  failFast?: boolean;
+  /**
+   * Accept `Option` inputs: `Some` passes its value to the handler, `None`
+   * short-circuits the call and settles as `None`. Results gain
+   * `{ option: true }` once an `Option` is passed.
+   */
+  option?: OptionMode;
 };
 
+type Slot<K extends string, V> = [V] extends [never] ? Record<never, never> : { [P in K]: V };
+
+/**
+ * Fx an async `fn` call may add: mapped rejections and throws go to the
+ * `defect` channel; `TimeoutError` (once `timeoutMs` is set) and
+ * `RetriesExhausted` (once `retry` is set) are ordinary `result` errors.
+ * A `retry` schedule makes every call async, sync handlers included. The
+ * `option` mode is marked so `Option` inputs add `{ option: true }`.
+ */
+export type FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode = false> = Simplify<
+  & Slot<"async", [RetrySchedule] extends [never] ? never : true>
+  & Slot<"option", [OptionMode] extends [true] ? true : never>
+  & Slot<"defect", DRejected | DThrown>
+  & Slot<
+    "result",
+    | ([TimeoutMs] extends [never] ? never : TimeoutError)
+    | ([RetrySchedule] extends [never] ? never : RetriesExhausted)
+  >
+>;
+
+/** An error payload on the `defect` channel. */
+export function defectPayload<D>(error: D): { tag: "err"; error: D; defect: true } {
+  return { tag: "err", error, defect: true };
+}
+
+/**
+ * What `Fect.try` and an unhandled `match` rethrow for a defect: the original
+ * exception or rejection reason for the built-in defects, the mapped value
+ * otherwise.
+ */
+export function defectToThrow(defect: unknown): unknown {
+  if (typeof defect === "object" && defect !== null && "cause" in defect) {
+    const tag = (defect as { _tag?: unknown })._tag;
+    if (tag === "UnknownException" || tag === "PromiseRejected") return (defect as { cause: unknown }).cause;
+  }
+  return defect;
+}
+
 export function defaultMapRejected(cause: unknown): PromiseRejected {
   return { _tag: "PromiseRejected", cause };
 }
@@ -353,6 +714,62 @@ export function settleToPayload(
   return { tag: "ok", value: raw };
 }
 
+/**
+ * Run a zero-arg thunk and settle whatever it returns (plain value, carrier,
+ * `Fail`, lazy or promise) into a payload. Throws become `UnknownException`,
+ * rejections `PromiseRejected`. `onRaw` sees the raw value before settling.
+ */
+export function settleThunk(
+  thunk: () => unknown,
+  onRaw?: (raw: unknown) => void,
+): Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>> {
+  let raw: unknown;
+  try {
+    raw = forceFectLazy(thunk());
+  } catch (cause) {
+    return defectPayload(defaultMapThrown(cause));
+  }
+  if (isPromiseLike(raw)) {
+    return Promise.resolve(raw).then(
+      (resolved) => {
+        onRaw?.(resolved);
+        return settleToPayload(resolved);
+      },
+      (cause) => defectPayload(defaultMapRejected(cause)),
+    );
+  }
+  onRaw?.(raw);
+  return settleToPayload(raw);
+}
+
+/** Carrier for running a zero-arg thunk once: a zero-arg `fn` call that also reports sync throws. */
+export type ThunkReturn<T> = FnReturn<[], T, { defect: Defect }> extends Fect<infer A, infer Fx extends FxShape>
+  ? Fect<A, MergeFx<Fx, { defect: UnknownException }>>
+  : never;
+
+/**
+ * Normalize any input into a carrier: lazies are forced, promises become
+ * async carriers whose rejections go through `mapRejected`.
+ */
+export function toCore(
+  input: unknown,
+  mapRejected: (cause: unknown) => unknown = defaultMapRejected,
+): Fect<unknown, FxShape> {
+  const resolved = forceFectLazy(input);
+  if (isFect(resolved)) return resolved;
+  if (isFectSource(resolved)) return resolved[TO_FECT](mapRejected);
+  if (isPromiseLike(resolved)) {
+    return makeCoreAsync(
+      Promise.resolve(resolved).then(
+        (value) => ({ tag: "ok" as const, value }),
+        (cause) => defectPayload(mapRejected(cause)),
+      ),
+      { async: true, defect: [] },
+    );
+  }
+  return makeCore({ tag: "ok", value: resolved }, {});
+}
+
 // ===== Public constructors =====
 
 /** Wrap a plain value in a success carrier. */
@@ -362,7 +779,8 @@ export function ok<A>(value: A): Fect<A, {}> {
 
 /** Build an error carrier directly. */
 export function err<E>(error: E): Fect<never, { result: E }> {
-  return makeCore({ tag: "err", error }, { result: error });
+  // Runtime fx lists error tags; makeCore records this error's.
+  return makeCore({ tag: "err", error }, { result: [] } as unknown as { result: E });
 }
 
 /**
@@ -417,17 +835,17 @@ export function props<T>(): <K extends keyof T>(
   (value: T): FnMaybeRawReturn<
     [value: T],
     T[K],
-    PromiseRejected | UnknownException
+    { defect: Defect }
   >;
   <FxIn extends FxShape>(value: Fect<T, FxIn>): FnReturn<
     Fect<T, FxIn>,
     T[K],
-    PromiseRejected | UnknownException
+    { defect: Defect }
   >;
   (value: PromiseLike<T>): FnReturn<
-    Fect<T, { async: true; result: PromiseRejected | UnknownException }>,
+    Fect<T, { async: true; defect: Defect }>,
     T[K],
-    PromiseRejected | UnknownException
+    { defect: Defect }
   >;
 } {
   return function <K extends keyof T>(key: K) {
@@ -443,7 +861,7 @@ export function get<T, Fx extends FxShape, K extends keyof T>(
 export function get<T, K extends keyof T>(
   value: PromiseLike<T>,
   key: K,
-): Fect<T[K], { async: true; result: PromiseRejected | UnknownException }>;
+): Fect<T[K], { async: true; defect: Defect }>;
 export function get(value: unknown, key: PropertyKey): unknown {
   const project = fn((input: Record<PropertyKey, unknown>) => input[key]);
   return project(value as Record<PropertyKey, unknown>);
@@ -496,6 +914,20 @@ export type FectErrorClass<Tag extends string, Fields extends object> = {
   readonly _tag: Tag;
 };
 
+/**
+ * Brand on `FectError` instances, telling them apart from plain data with a
+ * `_tag`. Read through a function: modules that this one imports declare
+ * their errors before it has finished loading.
+ */
+function fectErrorBrand(): symbol {
+  return Symbol.for("fect_error");
+}
+
+/** Runtime check: is this an instance of a `FectError` class? */
+export function isFectError(value: unknown): value is TaggedError {
+  return typeof value === "object" && value !== null && fectErrorBrand() in value;
+}
+
 /**
  * Declare a tagged error class in one line:
  *
@@ -527,6 +959,7 @@ export function FectError<const Tag extends string>(
         return fail(new this(...args));
       }
     }
+    Object.defineProperty(TaggedBase.prototype, fectErrorBrand(), { value: true });
     return TaggedBase as any;
   };
 }
@@ -1,20 +1,28 @@
 import {
   defaultMapRejected,
   defaultMapThrown,
+  defectPayload,
   err,
   type FectLazy,
   forceFectLazy,
+  forwardPayload,
   type Fect,
+  fromPayload,
+  type FectSource,
   isFectLazy,
+  type FnDefect,
   type FnMaybeRawReturn,
   type FnOptions,
   type FnReturn,
   type FxShape,
   isFail,
   isFect,
+  isFectSource,
   isPromiseLike,
   makeCore,
   makeCoreAsync,
+  makeCoreRestartable,
+  type MergeFx,
   type MergeInputFx2,
   type MergeInputFx3,
   type MergeInputFx4,
@@ -29,10 +37,32 @@ import {
   mergeFxRuntime,
   lazy,
   ok,
+  type Payload,
   type PromiseRejected,
   settleToPayload,
+  TO_FECT,
   type UnknownException,
 } from "./fect.ts";
+import { isOption, Option } from "./adts.ts";
+import {
+  attachCancel,
+  attachSignal,
+  cancelInputs,
+  claimInputs,
+  interruptedPayload,
+  mergeSignals,
+  raceAbort,
+  runWithSignal,
+  signalOf,
+} from "./interrupt.ts";
+import { annotate } from "./cause.ts";
+import { retryPayload } from "./retry.ts";
+import { defaultClock, type Schedule } from "./schedule.ts";
+import { adoptScopes, attachScopes, mergeScopes, type Scope, scopesOf } from "./scope.ts";
+import { deferInputs, isDeferred } from "./service.ts";
+import { raceTimeout } from "./timeout.ts";
+import { isAsyncIterable, isStream, mapStream } from "./stream.ts";
+import { traceCall } from "./trace.ts";
 
 /**
  * Wrap a handler so it participates in the infection pipeline.
@@ -43,165 +73,267 @@ import {
  * - Merges effect metadata from input and output.
  * - `Fail` returns (via `SomeError.err(...)`) are converted to error carriers.
  */
-type InfectedArg<T> =
+type InputPayload = { tag: "ok"; value: unknown } | { tag: "err"; error: unknown };
+
+/**
+ * Wait for the input payloads of a call. With `failFast` the first error to
+ * settle wins right away; otherwise every input settles and the first error
+ * in input order wins. Succeeds with the list of input values.
+ */
+function joinInputs(
+  payloads: readonly Promise<InputPayload>[],
+  failFast: boolean,
+): Promise<InputPayload> {
+  if (!failFast) {
+    return Promise.all(payloads).then((resolved) =>
+      resolved.find((p) => p.tag === "err") ??
+        { tag: "ok", value: resolved.map((p) => (p as { value: unknown }).value) }
+    );
+  }
+  return new Promise((resolve) => {
+    const values: unknown[] = new Array(payloads.length);
+    let remaining = payloads.length;
+    payloads.forEach((payload, i) =>
+      payload.then((resolved) => {
+        if (resolved.tag === "err") return resolve(resolved);
+        values[i] = resolved.value;
+        remaining -= 1;
+        if (remaining === 0) resolve({ tag: "ok", value: values });
+      })
+    );
+  });
+}
+
+/**
+ * Async output of a call that consumers can cancel. `first` is the run
+ * already under way with `controller`; cancelling aborts the current run, and
+ * the next read calls `start` with a fresh controller.
+ */
+function cancellable(
+  controller: AbortController,
+  first: Promise<Payload<unknown, unknown>>,
+  start: (controller: AbortController) => Promise<Payload<unknown, unknown>>,
+  fx: FxShape,
+): Fect<unknown, FxShape> {
+  let current = controller;
+  const carrier = makeCoreRestartable<unknown, FxShape>(first, () => start(current = new AbortController()), fx);
+  return attachCancel(carrier, (reason) => current.abort(reason));
+}
+
+/** An `Option` of `T`, accepted once `options.option` is set. */
+type OptionArg<T, OptionMode> = [OptionMode] extends [true] ? Option<T> : never;
+
+type InfectedArg<T, OptionMode = false> =
   | T
   | Fect<T, FxShape>
   | FectLazy<T>
-  | PromiseLike<T>;
+  | PromiseLike<T>
+  | AsyncIterable<T>
+  | OptionArg<T, OptionMode>;
 
 export function fn<
   H extends () => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
-): () => FnMaybeRawReturn<[], ReturnType<H>, DRejected | DThrown>;
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
+): () => FnMaybeRawReturn<[], ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
 export function fn<
   H extends (input: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (input: Parameters<H>[0]): FnMaybeRawReturn<
     Parameters<H>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
   <FxIn extends FxShape>(
     input: Fect<Parameters<H>[0], FxIn>,
   ): FnReturn<
     Fect<Parameters<H>[0], FxIn>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
+  >;
+  <FxIn extends FxShape>(
+    input: FectSource<Parameters<H>[0], FxIn>,
+  ): FnReturn<
+    Fect<Parameters<H>[0], MergeFx<FxIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
+    ReturnType<H>,
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
   (input: PromiseLike<Parameters<H>[0]>): FnReturn<
-    Fect<Parameters<H>[0], { async: true; result: DRejected | DThrown }>,
+    Fect<Parameters<H>[0], MergeFx<{ async: true }, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
+    ReturnType<H>,
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
+  >;
+  (input: AsyncIterable<Parameters<H>[0]>): FnReturn<
+    Fect<Parameters<H>[0], MergeFx<{ async: true; stream: true }, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
+    ReturnType<H>,
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
+  >;
+  (input: OptionArg<Parameters<H>[0], OptionMode>): FnReturn<
+    Fect<Parameters<H>[0], { option: true }>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
   (input: FectLazy<Parameters<H>[0]>): FectLazy<
-    FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>
+    FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>
   >;
 };
 export function fn<
   H extends (a: any, b: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (a: Parameters<H>[0], b: Parameters<H>[1]): FnMaybeRawReturn<
     Parameters<H>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
   <
     AIn extends
       | Parameters<H>[0]
       | Fect<Parameters<H>[0], FxShape>
       | FectLazy<Parameters<H>[0]>
-      | PromiseLike<Parameters<H>[0]>,
+      | PromiseLike<Parameters<H>[0]>
+      | AsyncIterable<Parameters<H>[0]>
+      | OptionArg<Parameters<H>[0], OptionMode>,
     BIn extends
       | Parameters<H>[1]
       | Fect<Parameters<H>[1], FxShape>
       | FectLazy<Parameters<H>[1]>
-      | PromiseLike<Parameters<H>[1]>,
+      | PromiseLike<Parameters<H>[1]>
+      | AsyncIterable<Parameters<H>[1]>
+      | OptionArg<Parameters<H>[1], OptionMode>,
   >(
     a: AIn,
     b: BIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx2<AIn, BIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx2<AIn, BIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
     b: Parameters<H>[1],
     c: Parameters<H>[2],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
     AIn extends
       | Parameters<H>[0]
       | Fect<Parameters<H>[0], FxShape>
       | FectLazy<Parameters<H>[0]>
-      | PromiseLike<Parameters<H>[0]>,
+      | PromiseLike<Parameters<H>[0]>
+      | AsyncIterable<Parameters<H>[0]>
+      | OptionArg<Parameters<H>[0], OptionMode>,
     BIn extends
       | Parameters<H>[1]
       | Fect<Parameters<H>[1], FxShape>
       | FectLazy<Parameters<H>[1]>
-      | PromiseLike<Parameters<H>[1]>,
+      | PromiseLike<Parameters<H>[1]>
+      | AsyncIterable<Parameters<H>[1]>
+      | OptionArg<Parameters<H>[1], OptionMode>,
     CIn extends
       | Parameters<H>[2]
       | Fect<Parameters<H>[2], FxShape>
       | FectLazy<Parameters<H>[2]>
-      | PromiseLike<Parameters<H>[2]>,
+      | PromiseLike<Parameters<H>[2]>
+      | AsyncIterable<Parameters<H>[2]>
+      | OptionArg<Parameters<H>[2], OptionMode>,
   >(
     a: AIn,
     b: BIn,
     c: CIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx3<AIn, BIn, CIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx3<AIn, BIn, CIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
     b: Parameters<H>[1],
     c: Parameters<H>[2],
     d: Parameters<H>[3],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
     AIn extends
       | Parameters<H>[0]
       | Fect<Parameters<H>[0], FxShape>
       | FectLazy<Parameters<H>[0]>
-      | PromiseLike<Parameters<H>[0]>,
+      | PromiseLike<Parameters<H>[0]>
+      | AsyncIterable<Parameters<H>[0]>
+      | OptionArg<Parameters<H>[0], OptionMode>,
     BIn extends
       | Parameters<H>[1]
       | Fect<Parameters<H>[1], FxShape>
       | FectLazy<Parameters<H>[1]>
-      | PromiseLike<Parameters<H>[1]>,
+      | PromiseLike<Parameters<H>[1]>
+      | AsyncIterable<Parameters<H>[1]>
+      | OptionArg<Parameters<H>[1], OptionMode>,
     CIn extends
       | Parameters<H>[2]
       | Fect<Parameters<H>[2], FxShape>
       | FectLazy<Parameters<H>[2]>
-      | PromiseLike<Parameters<H>[2]>,
+      | PromiseLike<Parameters<H>[2]>
+      | AsyncIterable<Parameters<H>[2]>
+      | OptionArg<Parameters<H>[2], OptionMode>,
     DIn extends
       | Parameters<H>[3]
       | Fect<Parameters<H>[3], FxShape>
       | FectLazy<Parameters<H>[3]>
-      | PromiseLike<Parameters<H>[3]>,
+      | PromiseLike<Parameters<H>[3]>
+      | AsyncIterable<Parameters<H>[3]>
+      | OptionArg<Parameters<H>[3], OptionMode>,
   >(
     a: AIn,
     b: BIn,
     c: CIn,
     d: DIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx4<AIn, BIn, CIn, DIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx4<AIn, BIn, CIn, DIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 // @generated-start fn-overloads-5-12
@@ -209,9 +341,12 @@ export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -219,13 +354,13 @@ export function fn<
     c: Parameters<H>[2],
     d: Parameters<H>[3],
     e: Parameters<H>[4],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -233,18 +368,21 @@ export function fn<
     d: DArgIn,
     e: EIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx5<AIn, BIn, CIn, DArgIn, EIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx5<AIn, BIn, CIn, DArgIn, EIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -253,14 +391,14 @@ export function fn<
     d: Parameters<H>[3],
     e: Parameters<H>[4],
     f: Parameters<H>[5],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -269,18 +407,21 @@ export function fn<
     e: EIn,
     f: FIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx6<AIn, BIn, CIn, DArgIn, EIn, FIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx6<AIn, BIn, CIn, DArgIn, EIn, FIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -290,15 +431,15 @@ export function fn<
     e: Parameters<H>[4],
     f: Parameters<H>[5],
     g: Parameters<H>[6],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -308,18 +449,21 @@ export function fn<
     f: FIn,
     g: GIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx7<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx7<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any, h: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -330,16 +474,16 @@ export function fn<
     f: Parameters<H>[5],
     g: Parameters<H>[6],
     h: Parameters<H>[7],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -350,18 +494,21 @@ export function fn<
     g: GIn,
     h: HIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx8<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx8<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any, h: any, i: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -373,17 +520,17 @@ export function fn<
     g: Parameters<H>[6],
     h: Parameters<H>[7],
     i: Parameters<H>[8],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -395,18 +542,21 @@ export function fn<
     h: HIn,
     i: IIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx9<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx9<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any, h: any, i: any, j: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -419,18 +569,18 @@ export function fn<
     h: Parameters<H>[7],
     i: Parameters<H>[8],
     j: Parameters<H>[9],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -443,18 +593,21 @@ export function fn<
     i: IIn,
     j: JIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx10<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx10<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any, h: any, i: any, j: any, k: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -468,19 +621,19 @@ export function fn<
     i: Parameters<H>[8],
     j: Parameters<H>[9],
     k: Parameters<H>[10],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
-    KIn extends InfectedArg<Parameters<H>[10]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
+    KIn extends InfectedArg<Parameters<H>[10], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -494,18 +647,21 @@ export function fn<
     j: JIn,
     k: KIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx11<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, KIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx11<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, KIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
   H extends (a: any, b: any, c: any, d: any, e: any, f: any, g: any, h: any, i: any, j: any, k: any, l: any) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -520,20 +676,20 @@ export function fn<
     j: Parameters<H>[9],
     k: Parameters<H>[10],
     l: Parameters<H>[11],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DArgIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
-    KIn extends InfectedArg<Parameters<H>[10]>,
-    LIn extends InfectedArg<Parameters<H>[11]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DArgIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
+    KIn extends InfectedArg<Parameters<H>[10], OptionMode>,
+    LIn extends InfectedArg<Parameters<H>[11], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -548,9 +704,9 @@ export function fn<
     k: KIn,
     l: LIn,
   ): FnReturn<
-    Fect<unknown, MergeInputFx12<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, KIn, LIn, DRejected | DThrown>>,
+    Fect<unknown, MergeInputFx12<AIn, BIn, CIn, DArgIn, EIn, FIn, GIn, HIn, IIn, JIn, KIn, LIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 // @generated-end fn-overloads-5-12
@@ -566,9 +722,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -578,15 +737,15 @@ export function fn<
     e: Parameters<H>[4],
     f: Parameters<H>[5],
     g: Parameters<H>[6],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -598,10 +757,10 @@ export function fn<
   ): FnReturn<
     Fect<
       unknown,
-      MergeInputFx7<AIn, BIn, CIn, DIn, EIn, FIn, GIn, DRejected | DThrown>
+      MergeInputFx7<AIn, BIn, CIn, DIn, EIn, FIn, GIn, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -617,9 +776,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -630,16 +792,16 @@ export function fn<
     f: Parameters<H>[5],
     g: Parameters<H>[6],
     h: Parameters<H>[7],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -661,11 +823,11 @@ export function fn<
         FIn,
         GIn,
         HIn,
-        DRejected | DThrown
+        FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
       >
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -682,9 +844,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -696,17 +861,17 @@ export function fn<
     g: Parameters<H>[6],
     h: Parameters<H>[7],
     i: Parameters<H>[8],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -730,11 +895,11 @@ export function fn<
         GIn,
         HIn,
         IIn,
-        DRejected | DThrown
+        FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
       >
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -752,9 +917,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -767,18 +935,18 @@ export function fn<
     h: Parameters<H>[7],
     i: Parameters<H>[8],
     j: Parameters<H>[9],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -804,11 +972,11 @@ export function fn<
         HIn,
         IIn,
         JIn,
-        DRejected | DThrown
+        FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
       >
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -827,9 +995,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -843,19 +1014,19 @@ export function fn<
     i: Parameters<H>[8],
     j: Parameters<H>[9],
     k: Parameters<H>[10],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
-    KIn extends InfectedArg<Parameters<H>[10]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
+    KIn extends InfectedArg<Parameters<H>[10], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -883,11 +1054,11 @@ export function fn<
         IIn,
         JIn,
         KIn,
-        DRejected | DThrown
+        FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
       >
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -907,9 +1078,12 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (
     a: Parameters<H>[0],
@@ -924,20 +1098,20 @@ export function fn<
     j: Parameters<H>[9],
     k: Parameters<H>[10],
     l: Parameters<H>[11],
-  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;
+  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;
   <
-    AIn extends InfectedArg<Parameters<H>[0]>,
-    BIn extends InfectedArg<Parameters<H>[1]>,
-    CIn extends InfectedArg<Parameters<H>[2]>,
-    DIn extends InfectedArg<Parameters<H>[3]>,
-    EIn extends InfectedArg<Parameters<H>[4]>,
-    FIn extends InfectedArg<Parameters<H>[5]>,
-    GIn extends InfectedArg<Parameters<H>[6]>,
-    HIn extends InfectedArg<Parameters<H>[7]>,
-    IIn extends InfectedArg<Parameters<H>[8]>,
-    JIn extends InfectedArg<Parameters<H>[9]>,
-    KIn extends InfectedArg<Parameters<H>[10]>,
-    LIn extends InfectedArg<Parameters<H>[11]>,
+    AIn extends InfectedArg<Parameters<H>[0], OptionMode>,
+    BIn extends InfectedArg<Parameters<H>[1], OptionMode>,
+    CIn extends InfectedArg<Parameters<H>[2], OptionMode>,
+    DIn extends InfectedArg<Parameters<H>[3], OptionMode>,
+    EIn extends InfectedArg<Parameters<H>[4], OptionMode>,
+    FIn extends InfectedArg<Parameters<H>[5], OptionMode>,
+    GIn extends InfectedArg<Parameters<H>[6], OptionMode>,
+    HIn extends InfectedArg<Parameters<H>[7], OptionMode>,
+    IIn extends InfectedArg<Parameters<H>[8], OptionMode>,
+    JIn extends InfectedArg<Parameters<H>[9], OptionMode>,
+    KIn extends InfectedArg<Parameters<H>[10], OptionMode>,
+    LIn extends InfectedArg<Parameters<H>[11], OptionMode>,
   >(
     a: AIn,
     b: BIn,
@@ -967,11 +1141,11 @@ export function fn<
         JIn,
         KIn,
         LIn,
-        DRejected | DThrown
+        FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
       >
     >,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn<
@@ -992,63 +1166,168 @@ export function fn<
   ) => unknown,
   DRejected = PromiseRejected,
   DThrown = UnknownException,
+  TimeoutMs extends number = never,
+  RetrySchedule extends Schedule = never,
+  OptionMode extends boolean = false,
 >(
   handler: H,
-  options?: FnOptions<DRejected, DThrown>,
+  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,
 ): {
   (...args: Parameters<H>): FnMaybeRawReturn<
     Parameters<H>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
   (...args: unknown[]): FnReturn<
     Fect<unknown, FxShape>,
     ReturnType<H>,
-    DRejected | DThrown
+    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>
   >;
 };
 export function fn(
   handler: (...args: unknown[]) => unknown,
-  options?: FnOptions,
+  options?: FnOptions<unknown, unknown, number, Schedule, boolean>,
 ) {
   const mapRejected = options?.mapRejected ?? options?.mapDefect ??
     defaultMapRejected;
   const mapThrown = options?.mapThrown ?? options?.mapDefect ??
     defaultMapThrown;
+  const timeoutMs = options?.timeoutMs;
+  const schedule = options?.retry;
+  const clock = options?.clock ?? defaultClock;
+  const name = options?.name ?? (handler.name || "anonymous");
+  const context = options?.annotate;
+  const failFast = options?.failFast ?? true;
+  const optionMode = options?.option ?? false;
+  const isOptionInput = (input: unknown): input is Option<unknown> => optionMode && isOption(input);
 
   function toCoreInput(input: unknown): Fect<unknown, FxShape> {
     if (isFect(input)) return input;
+    if (isOptionInput(input)) return Option.toFect(input);
+    if (isFectSource(input)) return input[TO_FECT](mapRejected);
     if (isPromiseLike(input)) {
       return makeCoreAsync(
         Promise.resolve(input).then(
           (v) => ({ tag: "ok" as const, value: v }),
-          (cause) => ({ tag: "err" as const, error: mapRejected(cause) }),
+          (cause) => defectPayload(mapRejected(cause)),
         ),
-        { async: true, result: true },
+        { async: true, defect: [] },
       );
     }
     return ok(input) as unknown as Fect<unknown, FxShape>;
   }
 
+  /** Settle an async handler result; carriers it resolves to hand their scopes to `scopes`. */
+  function settleAsync(
+    outRaw: PromiseLike<unknown>,
+    scopes: Scope[],
+  ): Promise<{ tag: "ok"; value: unknown } | { tag: "err"; error: unknown }> {
+    return Promise.resolve(outRaw).then(
+      (raw) => {
+        adoptScopes(scopes, raw);
+        return settleToPayload(raw);
+      },
+      (cause) => defectPayload(mapRejected(cause)),
+    );
+  }
+
+  /**
+   * Settle an async handler result into a payload, re-running the handler via
+   * `rerun` while it keeps failing and `options.retry` allows another attempt.
+   */
+  function settleAsyncOut(
+    outRaw: PromiseLike<unknown>,
+    rerun: () => unknown,
+    scopes: Scope[],
+  ): Promise<{ tag: "ok"; value: unknown } | { tag: "err"; error: unknown }> {
+    if (!schedule) return settleAsync(outRaw, scopes);
+    return retryPayload(
+      settleAsync(outRaw, scopes),
+      () => {
+        let raw: unknown;
+        try {
+          raw = rerun();
+        } catch (cause) {
+          return defectPayload(mapThrown(cause));
+        }
+        if (isPromiseLike(raw)) return settleAsync(raw, scopes);
+        adoptScopes(scopes, raw);
+        return settleToPayload(raw);
+      },
+      schedule,
+      clock,
+    );
+  }
+
+  /**
+   * Run one attempt of the handler. With `options.retry` the attempt settles
+   * async, so sync throws and `Fail`s are retried like rejections.
+   */
+  function attempt(call: () => unknown): unknown {
+    if (!schedule) return call();
+    try {
+      return Promise.resolve(call());
+    } catch (cause) {
+      return Promise.resolve(makeCore(defectPayload(mapThrown(cause)) as never, { defect: [] }));
+    }
+  }
+
+  /** Run the handler again for a cancelled output that is read once more. */
+  function runAgain(signal: AbortSignal | undefined, values: unknown[]): PromiseLike<unknown> {
+    try {
+      return Promise.resolve(attempt(() => runWithSignal(signal, () => handler(...values))));
+    } catch (cause) {
+      return Promise.resolve(makeCore(defectPayload(mapThrown(cause)) as never, { defect: [] }));
+    }
+  }
+
   const evaluate: (...inputs: unknown[]) => unknown = (...inputs: unknown[]) => {
+    // Inputs still waiting on a service: re-run this call once provided.
+    const deferred = deferInputs(inputs, (provided) => evaluate(...provided));
+    if (deferred) return deferred;
+    // Stream inputs: one traced call per element, results streamed in order.
+    if (inputs.some((input) => isStream(input) || (!isFect(input) && isAsyncIterable(input)))) {
+      return mapStream(inputs, evaluate, mapRejected);
+    }
+
+    return traceCall(name, inputs, () => {
+      const out = run(...inputs);
+      if (context === undefined || !isFect(out) || isDeferred(out)) return out;
+      return annotate(out, context);
+    });
+  };
+
+  const run = (...inputs: unknown[]): unknown => {
     const infectedCall = inputs.some((input) =>
-      isFect(input) || isPromiseLike(input)
+      isFect(input) || isPromiseLike(input) || isOptionInput(input)
     );
 
     // Plain call path: keep plain outputs plain.
     if (!infectedCall) {
-      const outRaw = handler(...inputs);
+      // Consumers that stop waiting on the result abort this signal.
+      const controller = new AbortController();
+      const outRaw = attempt(() => runWithSignal(controller.signal, () => handler(...inputs)));
 
       if (isPromiseLike(outRaw)) {
-        const asyncPayload = Promise.resolve(outRaw).then(
-          settleToPayload,
-          (cause) => ({ tag: "err" as const, error: mapRejected(cause) }),
-        );
-        return makeCoreAsync(
-          asyncPayload as Promise<
-            { tag: "ok"; value: unknown } | { tag: "err"; error: unknown }
-          >,
-          { async: true, result: true },
+        const scopes: Scope[] = [];
+        const settle = (raw: PromiseLike<unknown>, controller: AbortController) =>
+          raceTimeout(
+            settleAsyncOut(
+              raw,
+              () => runWithSignal(controller.signal, () => handler(...inputs)),
+              scopes,
+            ),
+            timeoutMs,
+            (reason) => controller.abort(reason),
+          );
+        return attachScopes(
+          cancellable(
+            controller,
+            settle(outRaw, controller),
+            (next) => settle(runAgain(next.signal, inputs), next),
+            { async: true, result: [], defect: [] },
+          ),
+          scopes,
         );
       }
 
@@ -1058,75 +1337,96 @@ export function fn(
     }
 
     const inCores = inputs.map(toCoreInput);
+    const signal = mergeSignals(inCores.map(signalOf));
+    const scopes = mergeScopes(inCores.map(scopesOf));
+    // Outputs inherit the inputs' signal and keep their scopes open.
+    const finish = <T extends Fect<unknown, FxShape>>(carrier: T): T => attachScopes(attachSignal(carrier, signal), scopes);
     const mergedInFx = inCores.reduce<FxShape>(
       (acc, core) => mergeFxRuntime(acc, core.fx),
-      {},
+      signal ? { result: [] } : {},
     );
     const inPayloads = inCores.map((core) => core.payload);
 
     // Async infected input(s): resolve all payloads first.
     if (inPayloads.some(isPromiseLike)) {
-      const asyncPayload = Promise.all(
-        inPayloads.map((payload) =>
-          Promise.resolve(payload).then(
-            (resolved) =>
-              resolved as
-                | { tag: "ok"; value: unknown }
-                | { tag: "err"; error: unknown },
-            (cause) =>
-              ({
-                tag: "err" as const,
-                error: mapRejected(cause),
-              }) as { tag: "ok"; value: unknown } | {
-                tag: "err";
-                error: unknown;
-              },
-          )
-        ),
-      ).then((resolvedInputs) => {
-        const firstErr = resolvedInputs.find((p) => p.tag === "err");
-        if (firstErr) return firstErr;
+      const start = (controller: AbortController) => {
+        const callSignal = mergeSignals([signal, controller.signal]);
+        // Once this call stops waiting (an input failed, or it was cancelled
+        // itself), inputs no other call is waiting on are cancelled too.
+        claimInputs(inCores);
+        let released = false;
+        const release = (reason: unknown) => {
+          if (released) return;
+          released = true;
+          cancelInputs(inCores, reason);
+        };
+        controller.signal.addEventListener("abort", () => release(controller.signal.reason), { once: true });
 
-        const values = resolvedInputs.map((p) =>
-          (p as { value: unknown }).value
+        const settledInputs = inPayloads.map((payload) =>
+          forwardPayload(payload).then(
+            (resolved) => resolved as InputPayload,
+            (cause): InputPayload => defectPayload(mapRejected(cause)),
+          )
         );
-        let outRaw: unknown;
-        try {
-          outRaw = handler(...values);
-        } catch (cause) {
-          return { tag: "err" as const, error: mapThrown(cause) };
-        }
+        const joined = joinInputs(settledInputs, failFast).then((joinedInputs) => {
+          if (joinedInputs.tag === "err") {
+            release(joinedInputs.error);
+            return joinedInputs;
+          }
+          if (signal?.aborted) return interruptedPayload(signal);
+          if (controller.signal.aborted) return defectPayload(mapRejected(controller.signal.reason));
 
-        if (isPromiseLike(outRaw)) {
-          return Promise.resolve(outRaw).then(
-            settleToPayload,
-            (cause) => ({ tag: "err" as const, error: mapRejected(cause) }),
-          );
-        }
-        if (isFectLazy(outRaw)) {
-          return settleToPayload(forceFectLazy(outRaw));
-        }
-        return settleToPayload(outRaw);
-      });
+          const values = joinedInputs.value as unknown[];
+          let outRaw: unknown;
+          try {
+            outRaw = attempt(() => runWithSignal(callSignal, () => handler(...values)));
+          } catch (cause) {
+            return defectPayload(mapThrown(cause));
+          }
 
-      return makeCoreAsync(
-        asyncPayload as Promise<
-          { tag: "ok"; value: unknown } | { tag: "err"; error: unknown }
-        >,
-        mergedInFx,
-      );
+          if (isPromiseLike(outRaw)) {
+            return settleAsyncOut(
+              outRaw,
+              () => runWithSignal(callSignal, () => handler(...values)),
+              scopes,
+            );
+          }
+          const settled = forceFectLazy(outRaw);
+          adoptScopes(scopes, settled);
+          return settleToPayload(settled);
+        });
+        return raceTimeout(
+          raceAbort(
+            joined as Promise<
+              { tag: "ok"; value: unknown } | { tag: "err"; error: unknown }
+            >,
+            signal,
+          ),
+          timeoutMs,
+          (reason) => controller.abort(reason),
+        );
+      };
+      const controller = new AbortController();
+      return finish(cancellable(controller, start(controller), start, mergedInFx));
     }
 
+    const controller = new AbortController();
+    const callSignal = mergeSignals([signal, controller.signal]);
+
     // Fully sync infected input(s)
     const firstErr = (
       inPayloads as Array<{ tag: "ok"; value: unknown } | { tag: "err"; error: unknown }>
     ).find((p) => p.tag === "err");
     if (firstErr) {
       // deno-lint-ignore no-explicit-any
-      return makeCore(
+      return finish(makeCore(
         firstErr as any,
         mergedInFx,
-      );
+      ));
+    }
+    if (signal?.aborted) {
+      // deno-lint-ignore no-explicit-any
+      return finish(makeCore(interruptedPayload(signal) as any, mergedInFx));
     }
 
     const values = (inPayloads as Array<{ tag: "ok"; value: unknown }>).map((
@@ -1134,26 +1434,37 @@ export function fn(
     ) => p.value);
     let outRaw: unknown;
     try {
-      outRaw = handler(...values);
+      outRaw = attempt(() => runWithSignal(callSignal, () => handler(...values)));
     } catch (cause) {
       // deno-lint-ignore no-explicit-any
-      return makeCore(
-        { tag: "err", error: mapThrown(cause) } as any,
-        mergeFxRuntime(mergedInFx, { result: true }),
-      );
+      return finish(makeCore(
+        defectPayload(mapThrown(cause)) as any,
+        mergeFxRuntime(mergedInFx, { defect: [] }),
+      ));
     }
 
     if (isPromiseLike(outRaw)) {
-      const asyncPayload = Promise.resolve(outRaw).then(
-        settleToPayload,
-        (cause) => ({ tag: "err" as const, error: mapRejected(cause) }),
-      );
-      return makeCoreAsync(
-        asyncPayload as Promise<
-          { tag: "ok"; value: unknown } | { tag: "err"; error: unknown }
-        >,
-        mergeFxRuntime(mergedInFx, { async: true, result: true }),
-      );
+      const settle = (raw: PromiseLike<unknown>, controller: AbortController) => {
+        const callSignal = mergeSignals([signal, controller.signal]);
+        return raceTimeout(
+          raceAbort(
+            settleAsyncOut(
+              raw,
+              () => runWithSignal(callSignal, () => handler(...values)),
+              scopes,
+            ),
+            signal,
+          ),
+          timeoutMs,
+          (reason) => controller.abort(reason),
+        );
+      };
+      return finish(cancellable(
+        controller,
+        settle(outRaw, controller),
+        (next) => settle(runAgain(mergeSignals([signal, next.signal]), values), next),
+        mergeFxRuntime(mergedInFx, { async: true, result: [], defect: [] }),
+      ));
     }
 
     if (isFectLazy(outRaw)) {
@@ -1163,21 +1474,25 @@ export function fn(
     if (isFail(outRaw)) {
       const outCore = err(outRaw.error);
       // deno-lint-ignore no-explicit-any
-      return makeCore(
+      return finish(makeCore(
         outCore.payload as any,
         mergeFxRuntime(mergedInFx, outCore.fx),
-      );
+      ));
+    }
+
+    if (isDeferred(outRaw)) {
+      return outRaw;
     }
 
     if (isFect(outRaw)) {
-      // deno-lint-ignore no-explicit-any
-      return makeCore(
-        outRaw.payload as any,
+      adoptScopes(scopes, outRaw);
+      return finish(fromPayload(
+        outRaw.payload as Payload<unknown, unknown> | PromiseLike<Payload<unknown, unknown>>,
         mergeFxRuntime(mergedInFx, outRaw.fx),
-      );
+      ));
     }
 
-    return makeCore({ tag: "ok", value: outRaw }, mergedInFx);
+    return finish(makeCore({ tag: "ok", value: outRaw }, mergedInFx));
   };
 
   // Any-arg handler
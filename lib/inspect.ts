@@ -0,0 +1,111 @@
+import { errorTagOf, type Fect, type FxShape, fxTags, isFect, isFectLazy, isUnstarted, settledPayloadOf } from "./fect.ts";
+import { isDeferred } from "./service.ts";
+
+/** Runtime view of a carrier's Fx, as returned by `fxOf`. */
+export type FxInfo = {
+  readonly async: boolean;
+  /**
+   * A `FectLazy` wrapper, whose Fx is unknown until it is forced, or a lazy
+   * carrier such as a stream whose work has not started yet.
+   */
+  readonly lazy: boolean;
+  /** A stream, collected into an array when matched. */
+  readonly stream: boolean;
+  /** Infected by an `Option`: may settle with `None`. */
+  readonly option: boolean;
+  /** Tags of the domain errors produced so far, by the carrier or its inputs. */
+  readonly errors: readonly string[];
+  /** Tags of the defects produced so far. */
+  readonly defects: readonly string[];
+  /** Keys of services still to be provided. */
+  readonly requires: readonly string[];
+  /** Any other Fx keys, such as custom effects. */
+  readonly effects: readonly string[];
+};
+
+const KNOWN_KEYS = new Set(["async", "stream", "option", "result", "defect", "requires"]);
+
+/**
+ * What a carrier's runtime Fx records. Error tags accumulate as errors are
+ * produced, so an async carrier reports its own error once it has settled:
+ *
+ * ```ts
+ * const user = loadUser("7");
+ * fxOf(user); // { async: true, errors: [], ... }
+ * await match(user).with({ ok: render, err: { NotFound: notFound } });
+ * fxOf(user); // { async: true, errors: ["NotFound"], ... }
+ * ```
+ */
+export function fxOf(input: unknown): FxInfo {
+  if (!isFect(input)) {
+    return {
+      async: false,
+      lazy: isFectLazy(input),
+      stream: false,
+      option: false,
+      errors: [],
+      defects: [],
+      requires: [],
+      effects: [],
+    };
+  }
+  const fx: FxShape = input.fx;
+  return {
+    async: fx.async === true,
+    lazy: isUnstarted(input),
+    stream: fx.stream === true,
+    option: fx.option === true,
+    errors: [...fxTags(fx, "result")],
+    defects: [...fxTags(fx, "defect")],
+    requires: [...fxTags(fx, "requires")],
+    effects: Object.keys(fx).filter((key) => !KNOWN_KEYS.has(key)),
+  };
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value !== "object" || value === null) return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function describeFx(info: FxInfo): string {
+  const parts = [
+    ...(info.async ? ["async"] : []),
+    ...(info.lazy ? ["lazy"] : []),
+    ...(info.stream ? ["stream"] : []),
+    ...(info.option ? ["option"] : []),
+    ...(info.errors.length > 0 ? [`result: ${info.errors.join(" | ")}`] : []),
+    ...(info.defects.length > 0 ? [`defect: ${info.defects.join(" | ")}`] : []),
+    ...(info.requires.length > 0 ? [`requires: ${info.requires.join(" | ")}`] : []),
+    ...info.effects,
+  ];
+  return parts.length === 0 ? "{}" : `{ ${parts.join("; ")} }`;
+}
+
+function describeState(carrier: Fect<unknown, FxShape>): string {
+  if (isDeferred(carrier)) return "deferred";
+  const payload = settledPayloadOf(carrier);
+  if (payload === undefined) return "pending";
+  if (payload.tag === "ok") return `ok(${describeValue(payload.value)})`;
+  if (payload.none) return "none";
+  return `${payload.defect ? "defect" : "err"}(${errorTagOf(payload.error)})`;
+}
+
+/**
+ * One-line description of a carrier for logs: its state (`ok`, `err`,
+ * `defect`, `none`, `pending` or `deferred`) and runtime Fx.
+ *
+ * ```ts
+ * inspect(loadUser("7")); // "Fect.pending { async }"
+ * inspect(err(NotFound.of({ id: "7" }))); // "Fect.err(NotFound) { result: NotFound }"
+ * ```
+ */
+export function inspect(input: unknown): string {
+  if (isFectLazy(input)) return "FectLazy";
+  if (!isFect(input)) return describeValue(input);
+  return `Fect.${describeState(input)} ${describeFx(fxOf(input))}`;
+}
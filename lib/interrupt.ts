@@ -0,0 +1,218 @@
+import {
+  type AnyPayload,
+  defaultMapRejected,
+  defectPayload,
+  type Fect,
+  FectError,
+  type FectErrorClass,
+  type FectLazy,
+  fromPayload,
+  type FxShape,
+  isPromiseLike,
+  makeCoreAsync,
+  type MergeFx,
+  mergeFxRuntime,
+  type PromiseRejected,
+  propagate,
+  readersOf,
+  restartCarrier,
+  toCore,
+} from "./fect.ts";
+import { registerErrors } from "./registry.ts";
+
+const InterruptedBase: FectErrorClass<"Interrupted", { reason: unknown }> = FectError("Interrupted")<{ reason: unknown }>();
+
+/** Settled into a carrier when its `AbortSignal` fires before the work completes. */
+export class Interrupted extends InterruptedBase {}
+
+registerErrors(Interrupted);
+
+/** Signals of carriers; kept off the carrier so it stays a plain object. */
+const carrierSignals = new WeakMap<object, AbortSignal>();
+
+/** Signal of the handler currently running inside `fn`, if any. */
+let activeSignal: AbortSignal | undefined;
+
+/** The `AbortSignal` attached to a carrier by `abortable` or inherited through `fn`. */
+export function signalOf(input: unknown): AbortSignal | undefined {
+  if (typeof input !== "object" || input === null) return undefined;
+  return carrierSignals.get(input);
+}
+
+/**
+ * The `AbortSignal` of the running `fn` handler. Read it before the first
+ * `await` and hand it to cancellable APIs:
+ *
+ * ```ts
+ * const load = fn(async (url: string) => {
+ *   const res = await fetch(url, { signal: currentSignal() });
+ *   return res.json();
+ * });
+ * ```
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return activeSignal;
+}
+
+export function attachSignal<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  signal: AbortSignal | undefined,
+): T {
+  if (signal) carrierSignals.set(carrier, signal);
+  return carrier;
+}
+
+export function mergeSignals(
+  signals: ReadonlyArray<AbortSignal | undefined>,
+): AbortSignal | undefined {
+  const present = [...new Set(signals.filter((s): s is AbortSignal => s !== undefined))];
+  if (present.length === 0) return undefined;
+  if (present.length === 1) return present[0];
+  return AbortSignal.any(present);
+}
+
+export function interruptedPayload(signal: AbortSignal): AnyPayload {
+  return { tag: "err", error: Interrupted.of({ reason: signal.reason }) };
+}
+
+/** Run `thunk` with `signal` exposed through `currentSignal()`. */
+export function runWithSignal<T>(
+  signal: AbortSignal | undefined,
+  thunk: () => T,
+): T {
+  if (!signal) return thunk();
+  const previous = activeSignal;
+  activeSignal = signal;
+  try {
+    return thunk();
+  } finally {
+    activeSignal = previous;
+  }
+}
+
+/**
+ * Aborts the work behind `owner`. `consumers` counts the calls waiting on it,
+ * so work shared by several calls is only aborted once none needs it.
+ */
+type Cancel = { consumers: number; owner: Fect<unknown, FxShape>; abort: (reason: unknown) => void };
+
+/** Side table of cancel handles, shared by carriers that wrap the same work. */
+const carrierCancels = new WeakMap<object, Cancel>();
+
+function cancelOf(input: unknown): Cancel | undefined {
+  if (typeof input !== "object" || input === null) return undefined;
+  return carrierCancels.get(input);
+}
+
+/**
+ * Let calls that stop waiting on `carrier` abort the work behind it. The
+ * carrier comes from `makeCoreRestartable`, so aborted work runs again on
+ * its next read instead of settling with the cancellation.
+ */
+export function attachCancel<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  abort: (reason: unknown) => void,
+): T {
+  carrierCancels.set(carrier, { consumers: 0, owner: carrier, abort });
+  return carrier;
+}
+
+/** Give `carrier` the cancel handle of `source`, for wrappers that pass its work through. */
+export function inheritCancel<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  source: unknown,
+): T {
+  const cancel = cancelOf(source);
+  if (cancel) carrierCancels.set(carrier, cancel);
+  return carrier;
+}
+
+/** Record that a call is waiting on each of `inputs`. */
+export function claimInputs(inputs: readonly unknown[]): void {
+  for (const input of inputs) {
+    const cancel = cancelOf(input);
+    if (cancel) cancel.consumers += 1;
+  }
+}
+
+/**
+ * Stop waiting on `inputs` (claimed earlier with `claimInputs`). Work that no
+ * other call is still waiting on, and nobody else reads, is aborted with
+ * `reason`; only the cancelling calls see the abort, later reads restart it.
+ */
+export function cancelInputs(inputs: readonly unknown[], reason: unknown): void {
+  for (const input of inputs) {
+    const cancel = cancelOf(input);
+    if (!cancel) continue;
+    cancel.consumers -= 1;
+    if (cancel.consumers > 0 || readersOf(cancel.owner) > 0) continue;
+    restartCarrier(cancel.owner);
+    cancel.abort(reason);
+  }
+}
+
+/**
+ * Settle with `Interrupted` as soon as `signal` aborts, instead of waiting for
+ * a payload that may never arrive.
+ */
+export function raceAbort(
+  payload: PromiseLike<AnyPayload>,
+  signal: AbortSignal | undefined,
+): Promise<AnyPayload> {
+  if (!signal) return Promise.resolve(payload);
+  if (signal.aborted) return Promise.resolve(interruptedPayload(signal));
+
+  return new Promise((resolve) => {
+    const onAbort = () => resolve(interruptedPayload(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(payload).then(
+      (resolved) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(resolved);
+      },
+      (cause) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(defectPayload(defaultMapRejected(cause)));
+      },
+    );
+  });
+}
+
+/**
+ * Attach an `AbortSignal` to an input. Every `fn` fed (directly or through a
+ * chain) with the returned carrier inherits the signal: once it aborts,
+ * pending work settles with `Interrupted` and downstream handlers are skipped.
+ *
+ * ```ts
+ * const controller = new AbortController();
+ * const user = fetchUser(abortable("denoland", controller.signal));
+ * request.signal.addEventListener("abort", () => controller.abort());
+ * ```
+ */
+export function abortable<A, Fx extends FxShape>(
+  input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
+  signal: AbortSignal,
+): Fect<A, MergeFx<Fx, { result: Interrupted }>>;
+export function abortable<A>(
+  input: PromiseLike<A>,
+  signal: AbortSignal,
+): Fect<A, { async: true; result: Interrupted; defect: PromiseRejected }>;
+export function abortable<A>(
+  input: A | FectLazy<A>,
+  signal: AbortSignal,
+): Fect<A, { result: Interrupted }>;
+export function abortable(
+  input: unknown,
+  signal: AbortSignal,
+): Fect<unknown, FxShape> {
+  const core = toCore(input);
+  const merged = mergeSignals([signalOf(core), signal]);
+  const fx = mergeFxRuntime(core.fx, { result: [] });
+  const payload = core.payload as AnyPayload | PromiseLike<AnyPayload>;
+  const finish = (carrier: Fect<unknown, FxShape>) => propagate(carrier, core, merged);
+
+  if (isPromiseLike(payload)) {
+    return finish(makeCoreAsync(raceAbort(payload, merged), fx));
+  }
+  return finish(fromPayload(payload.tag === "ok" && merged?.aborted ? interruptedPayload(merged) : payload, fx));
+}
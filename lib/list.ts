@@ -1,11 +1,26 @@
 import {
-  FectError,
+  type AnyPayload,
   err,
-  ok,
   type Fect,
+  FectError,
   type FectErrorClass,
+  fromPayload,
+  type FxShape,
+  isPromiseLike,
+  ok,
+  settleThunk,
+  type ThunkReturn,
+  toCore,
 } from "./fect.ts";
 import { None, type Option, Some } from "./adts.ts";
+import type { AllFx, AllValues } from "./all.ts";
+import { registerErrors } from "./registry.ts";
+
+/** Value an element function settles to: promises awaited, carriers unwrapped. */
+type ElementValue<R> = ThunkReturn<R> extends Fect<infer A, infer _Fx extends FxShape> ? A : never;
+
+/** Carrier of `A` with the Fx of the element function's return `R`, merged like `fn` merges them. */
+export type ListReturn<A, R> = ThunkReturn<R> extends Fect<infer _A, infer Fx extends FxShape> ? Fect<A, Fx> : never;
 
 const ListIndexOutOfBoundsBase: FectErrorClass<
   "ListIndexOutOfBounds",
@@ -14,6 +29,8 @@ const ListIndexOutOfBoundsBase: FectErrorClass<
 
 export class ListIndexOutOfBounds extends ListIndexOutOfBoundsBase {}
 
+registerErrors(ListIndexOutOfBounds);
+
 export function length<T>(items: readonly T[]): number {
   return items.length;
 }
@@ -45,11 +62,163 @@ export function prepend<T>(head: T, tail: readonly T[]): readonly T[] {
   return [head, ...tail];
 }
 
+/**
+ * Drive `step` over indices `0..count` in order: synchronously until a step
+ * returns a promise, then one step at a time after it. The first err payload
+ * ends the walk; `visit` returning true ends it early with success.
+ */
+function walk(
+  count: number,
+  step: (index: number) => AnyPayload | PromiseLike<AnyPayload>,
+  visit: (value: unknown, index: number) => boolean | void,
+  done: () => unknown,
+): Fect<unknown, FxShape> {
+  const from = (start: number): AnyPayload | Promise<AnyPayload> => {
+    for (let index = start; index < count; index++) {
+      const payload = step(index);
+      if (isPromiseLike(payload)) {
+        return Promise.resolve(payload).then((settled) => {
+          if (settled.tag === "err") return settled;
+          return visit(settled.value, index) ? { tag: "ok", value: done() } : from(index + 1);
+        });
+      }
+      if (payload.tag === "err") return payload;
+      if (visit(payload.value, index)) break;
+    }
+    return { tag: "ok", value: done() };
+  };
+
+  const out = from(0);
+  return fromPayload(out, { result: [], defect: [] });
+}
+
+/**
+ * Apply `f` to each item in order and collect the results. `f` may return a
+ * plain value, a carrier, a `Fail` or a promise; the first error stops the
+ * walk, and the result is async only once some call returned a promise.
+ *
+ * ```ts
+ * const users = map(ids, (id) => loadUser(id)); // Fect<User[], { async: true; result: NotFound; ... }>
+ * ```
+ */
+export function map<T, R>(
+  items: readonly T[],
+  f: (item: T, index: number) => R,
+): ListReturn<ElementValue<R>[], R> {
+  const values: unknown[] = [];
+  return walk(
+    items.length,
+    (index) => settleThunk(() => f(items[index], index)),
+    (value) => void values.push(value),
+    () => values,
+  ) as unknown as ListReturn<ElementValue<R>[], R>;
+}
+
+/** Keep the items `predicate` settles to `true` for. */
+export function filter<T, S extends T>(
+  items: readonly T[],
+  predicate: (item: T, index: number) => item is S,
+): ListReturn<S[], boolean>;
+export function filter<T, R>(
+  items: readonly T[],
+  predicate: (item: T, index: number) => R,
+): ListReturn<T[], R>;
+export function filter<T>(
+  items: readonly T[],
+  predicate: (item: T, index: number) => unknown,
+): Fect<unknown, FxShape> {
+  const kept: T[] = [];
+  return walk(
+    items.length,
+    (index) => settleThunk(() => predicate(items[index], index)),
+    (keep, index) => void (keep && kept.push(items[index])),
+    () => kept,
+  );
+}
+
+/** Fold the items into one value; each call gets the previous call's settled value. */
+export function reduce<T, A, R>(
+  items: readonly T[],
+  reducer: (acc: A, item: T, index: number) => R,
+  initial: A,
+): ListReturn<A, R> {
+  let acc = initial;
+  return walk(
+    items.length,
+    (index) => settleThunk(() => reducer(acc, items[index], index)),
+    (value) => void (acc = value as A),
+    () => acc,
+  ) as unknown as ListReturn<A, R>;
+}
+
+/** Like `map`, for `f` returning an array per item; the arrays are concatenated. */
+export function flatMap<T, R>(
+  items: readonly T[],
+  f: (item: T, index: number) => R,
+): ListReturn<ElementValue<R> extends readonly (infer U)[] ? U[] : never, R> {
+  const values: unknown[] = [];
+  return walk(
+    items.length,
+    (index) => settleThunk(() => f(items[index], index)),
+    (value) => void values.push(...value as unknown[]),
+    () => values,
+  ) as unknown as ListReturn<ElementValue<R> extends readonly (infer U)[] ? U[] : never, R>;
+}
+
+/** The first item `predicate` settles to `true` for, as an `Option`. Later items are not visited. */
+export function find<T, R>(
+  items: readonly T[],
+  predicate: (item: T, index: number) => R,
+): ListReturn<Option<T>, R> {
+  let found: Option<T> = None;
+  return walk(
+    items.length,
+    (index) => settleThunk(() => predicate(items[index], index)),
+    (match, index) => {
+      if (match) found = Some(items[index]);
+      return Boolean(match);
+    },
+    () => found,
+  ) as unknown as ListReturn<Option<T>, R>;
+}
+
+/** `sequence(items.map(f))` without building the inputs first: `f` runs for an item only once the previous one succeeded. */
+export function traverse<T, R>(
+  items: readonly T[],
+  f: (item: T, index: number) => R,
+): ListReturn<ElementValue<R>[], R> {
+  return map(items, f);
+}
+
+/**
+ * Settle a list of inputs (plain values, carriers, lazies or promises) into
+ * one carrier of their values, in order. Unlike `all`, a lazy input is only
+ * forced once every input before it succeeded.
+ */
+export function sequence<T extends readonly unknown[] | []>(
+  inputs: T,
+): Fect<AllValues<T>, AllFx<T>> {
+  const values: unknown[] = [];
+  return walk(
+    inputs.length,
+    (index) => toCore(inputs[index]).payload as AnyPayload | PromiseLike<AnyPayload>,
+    (value) => void values.push(value),
+    () => values,
+  ) as unknown as Fect<AllValues<T>, AllFx<T>>;
+}
+
 export const List = {
   length,
   slice,
   atOption,
   at,
   prepend,
+  map,
+  filter,
+  reduce,
+  flatMap,
+  find,
+  traverse,
+  sequence,
   ListIndexOutOfBounds,
 } as const;
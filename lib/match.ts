@@ -1,24 +1,44 @@
 import {
-  forceFectLazy,
+  defectToThrow,
+  type Fect,
   type FectLazy,
+  forceFectLazy,
+  type FxShape,
+  fxTags,
   isFect,
   isFectLazy,
-  type Fect,
-  type FxShape,
   makeCore,
   makeCoreAsync,
+  propagate,
   type Simplify,
   type TaggedError,
 } from "./fect.ts";
+import { type Cause, causeOfPayload } from "./cause.ts";
+import { discharge } from "./scope.ts";
 
 type ErrorOfFx<Fx extends FxShape> = Fx extends { result: infer E } ? E : never;
+type DefectOfFx<Fx extends FxShape> = Fx extends { defect: infer D } ? D : never;
+type OptionOfFx<Fx extends FxShape> = Fx extends { option: infer O } ? O : never;
 type Exact<T, Shape> = T & Record<Exclude<keyof T, keyof Shape>, never>;
 
 type ErrorHandlers<E extends TaggedError, R> = {
-  [K in E["_tag"] & string]: (error: Extract<E, { _tag: K }>) => R;
+  [K in E["_tag"] & string]: (error: Extract<E, { _tag: K }>, cause: Cause) => R;
 };
 
-type MatchHandlers<A, E, TOk, TErr> = [E] extends [never]
+/** Defects are optional to handle; unhandled ones are rethrown. */
+type DefectHandler<D, TDefect> = [D] extends [never] ? Record<never, never>
+  : { defect?: (defect: D, cause: Cause) => TDefect };
+
+/** Carriers from `Option.toFect` need a branch for `None`. */
+type NoneHandler<O, TNone> = [O] extends [never] ? Record<never, never>
+  : { none: () => TNone };
+
+type MatchHandlers<A, E, D, O, TOk, TErr, TDefect, TNone> =
+  & ResultHandlers<A, E, TOk, TErr>
+  & DefectHandler<D, TDefect>
+  & NoneHandler<O, TNone>;
+
+type ResultHandlers<A, E, TOk, TErr> = [E] extends [never]
   ? { ok: (value: A) => TOk }
   : [E] extends [TaggedError] ? {
       ok: (value: A) => TOk;
@@ -27,11 +47,11 @@ type MatchHandlers<A, E, TOk, TErr> = [E] extends [never]
           ErrorHandlers<E & TaggedError, TErr>,
           ErrorHandlers<E & TaggedError, TErr>
         >
-        | ((error: E) => TErr);
+        | ((error: E, cause: Cause) => TErr);
     }
   : {
     ok: (value: A) => TOk;
-    err: (error: E) => TErr;
+    err: (error: E, cause: Cause) => TErr;
   };
 
 type PlainValueHandler<T> = (value: T) => unknown;
@@ -79,26 +99,38 @@ function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
 }
 
 function dispatchFectPayload<A, E, TOk, TErr>(
-  payload: { tag: "ok"; value: A } | { tag: "err"; error: E },
+  payload: { tag: "ok"; value: A } | { tag: "err"; error: E; cause?: Cause; defect?: boolean; none?: boolean },
   handlers: {
     ok: (value: A) => TOk;
-    err?: ((error: E) => TErr) | Record<string, (error: unknown) => TErr>;
+    err?: ((error: E, cause: Cause) => TErr) | Record<string, (error: unknown, cause: Cause) => TErr>;
+    defect?: (defect: unknown, cause: Cause) => TErr;
+    none?: () => TErr;
   },
 ): TOk | TErr {
   if (payload.tag === "ok") {
     return handlers.ok(payload.value);
   }
 
+  if (payload.defect) {
+    if (handlers.defect) return handlers.defect(payload.error, causeOfPayload(payload));
+    throw defectToThrow(payload.error);
+  }
+
+  if (payload.none) {
+    if (handlers.none) return handlers.none();
+    throw new Error("Missing none handler");
+  }
+
   const maybeErr = handlers.err;
   if (typeof maybeErr === "function") {
-    return maybeErr(payload.error);
+    return maybeErr(payload.error, causeOfPayload(payload));
   }
 
   if (typeof maybeErr === "object" && maybeErr !== null) {
-    const byTag = maybeErr as Record<string, (e: unknown) => TErr>;
+    const byTag = maybeErr as Record<string, (e: unknown, cause: Cause) => TErr>;
     const e = payload.error as unknown as TaggedError;
     const h = byTag[e._tag];
-    if (typeof h === "function") return h(payload.error);
+    if (typeof h === "function") return h(payload.error, causeOfPayload(payload));
   }
 
   throw new Error("Missing error handler");
@@ -158,10 +190,10 @@ function dispatchPlainValue<T, THandlers extends PlainMatchHandlers<T>>(
 }
 
 function partiallyHandlePayload<A>(
-  payload: { tag: "ok"; value: A } | { tag: "err"; error: unknown },
+  payload: { tag: "ok"; value: A } | { tag: "err"; error: unknown; defect?: boolean; none?: boolean },
   handlers: Record<string, (error: unknown) => A>,
 ): { tag: "ok"; value: A } | { tag: "err"; error: unknown } {
-  if (payload.tag === "ok") return payload;
+  if (payload.tag === "ok" || payload.defect || payload.none) return payload;
 
   const maybeError = payload.error;
   if (
@@ -180,19 +212,27 @@ function partiallyHandlePayload<A>(
   return payload;
 }
 
+/** A `Stream` is collected first: `ok` gets every element once it ends. */
+export function match<A, Fx extends { async: true; stream: true } & FxShape>(
+  input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
+): {
+  with<TOk, TErr = never, TDefect = never, TNone = never>(
+    handlers: MatchHandlers<A[], ErrorOfFx<Fx>, DefectOfFx<Fx>, OptionOfFx<Fx>, TOk, TErr, TDefect, TNone>,
+  ): Promise<TOk | TErr | TDefect | TNone>;
+};
 export function match<A, Fx extends { async: true } & FxShape>(
   input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
 ): {
-  with<TOk, TErr>(
-    handlers: MatchHandlers<A, ErrorOfFx<Fx>, TOk, TErr>,
-  ): Promise<TOk | TErr>;
+  with<TOk, TErr = never, TDefect = never, TNone = never>(
+    handlers: MatchHandlers<A, ErrorOfFx<Fx>, DefectOfFx<Fx>, OptionOfFx<Fx>, TOk, TErr, TDefect, TNone>,
+  ): Promise<TOk | TErr | TDefect | TNone>;
 };
 export function match<A, Fx extends FxShape>(
   input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
 ): {
-  with<TOk, TErr>(
-    handlers: MatchHandlers<A, ErrorOfFx<Fx>, TOk, TErr>,
-  ): TOk | TErr;
+  with<TOk, TErr = never, TDefect = never, TNone = never>(
+    handlers: MatchHandlers<A, ErrorOfFx<Fx>, DefectOfFx<Fx>, OptionOfFx<Fx>, TOk, TErr, TDefect, TNone>,
+  ): TOk | TErr | TDefect | TNone;
 };
 export function match<T>(input: T | FectLazy<T>): {
   with<R>(
@@ -209,10 +249,14 @@ export function match(input: unknown) {
     return {
       with<TOk, TErr>(
         handlers: {
-          ok: (value: unknown) => TOk;
+          // A stream's `ok` takes its collected elements.
+          // deno-lint-ignore no-explicit-any
+          ok: (value: any) => TOk;
           err?:
-            | ((error: unknown) => TErr)
-            | Record<string, (error: unknown) => TErr>;
+            | ((error: unknown, cause: Cause) => TErr)
+            | Record<string, (error: unknown, cause: Cause) => TErr>;
+          defect?: (defect: unknown, cause: Cause) => TErr;
+          none?: () => TErr;
         },
       ): (TOk | TErr) | Promise<TOk | TErr> {
         const payload = resolvedInput.payload as
@@ -222,13 +266,14 @@ export function match(input: unknown) {
             { tag: "ok"; value: unknown } | { tag: "err"; error: unknown }
           >;
 
+        // Matching discharges the carrier: close the scopes it holds open.
         if (isPromiseLike(payload)) {
           return Promise.resolve(payload).then((resolved) =>
-            dispatchFectPayload(resolved, handlers)
+            discharge(resolvedInput, resolved, () => dispatchFectPayload(resolved, handlers), true)
           );
         }
 
-        return dispatchFectPayload(payload, handlers);
+        return discharge(resolvedInput, payload, () => dispatchFectPayload(payload, handlers));
       },
     };
   }
@@ -266,22 +311,32 @@ export function partial<A, Fx extends FxShape>(
         | { tag: "err"; error: unknown }
         | Promise<{ tag: "ok"; value: A } | { tag: "err"; error: unknown }>;
 
+      // Handled tags no longer reach the continued flow.
+      const fx = { ...resolvedInput.fx, result: fxTags(resolvedInput.fx, "result").filter((tag) => !(tag in errHandlers)) };
+
+      // The continued flow keeps the input's signal, its scopes open and its spans as parents.
+      const finish = (carrier: Fect<A, FxShape>) =>
+        propagate(carrier, resolvedInput) as unknown as Fect<
+          A,
+          PartialFx<Fx, typeof handlers.err>
+        >;
+
       if (isPromiseLike(payload)) {
-        return makeCoreAsync(
+        return finish(makeCoreAsync(
           Promise.resolve(payload).then((resolved) =>
             partiallyHandlePayload(resolved, errHandlers)
           ),
-          resolvedInput.fx,
-        ) as unknown as Fect<A, PartialFx<Fx, typeof handlers.err>>;
+          fx,
+        ));
       }
 
-      return makeCore(
+      return finish(makeCore(
         partiallyHandlePayload(payload, errHandlers) as unknown as {
           tag: "ok";
           value: A;
         } | { tag: "err"; error: ErrorOfFx<Fx> },
-        resolvedInput.fx,
-      ) as unknown as Fect<A, PartialFx<Fx, typeof handlers.err>>;
+        fx,
+      ));
     },
   };
 }
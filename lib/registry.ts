@@ -0,0 +1,19 @@
+/** A tagged error class such as one declared with `FectError("Tag")()`. */
+export type TaggedErrorClass = { readonly _tag: string; readonly prototype: object };
+
+/** Error classes `deserialize` rebuilds instances of, keyed by `_tag`. */
+const errorRegistry = new Map<string, TaggedErrorClass>();
+
+/**
+ * Register tagged error classes so `deserialize` turns their data back into
+ * real instances. A later registration for the same `_tag` replaces the
+ * earlier one. The library's own errors are registered by their modules.
+ */
+export function registerErrors(...classes: readonly TaggedErrorClass[]): void {
+  for (const errorClass of classes) errorRegistry.set(errorClass._tag, errorClass);
+}
+
+/** The class registered for `tag`, if any. */
+export function registeredError(tag: string): TaggedErrorClass | undefined {
+  return errorRegistry.get(tag);
+}
@@ -0,0 +1,135 @@
+import { err, ok, type Payload } from "./fect.ts";
+import { RemoteValue, type RemoteValueOptions } from "./remotevalue.ts";
+import { deserialize, serialize, type SerializedFect } from "./serialize.ts";
+
+/** What a bridge needs from a `MessagePort`, a `Worker` or a worker's `self`. */
+export type MessageEndpoint = {
+  postMessage(message: unknown): void;
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  start?(): void;
+};
+
+export type RemoteBridgeOptions = {
+  /** Default `timeoutMs` for values created with `value()`. */
+  timeoutMs?: number;
+};
+
+/** Message a bridge posts to settle a value on the other side. */
+type SettleMessage = {
+  $remoteValue: string;
+  data: SerializedFect;
+};
+
+function isSettleMessage(data: unknown): data is SettleMessage {
+  return typeof data === "object" && data !== null &&
+    typeof (data as { $remoteValue?: unknown }).$remoteValue === "string" &&
+    typeof (data as { data?: unknown }).data === "object";
+}
+
+/**
+ * Connects `RemoteValue`s across a `MessagePort` or `Worker`. One side
+ * creates values with `value()` and sends their `id` along with a request;
+ * the other side answers with `fill(id, value)` or `fail(id, reason)` on its
+ * own bridge. Values and errors travel through `serialize`, so registered
+ * tagged errors arrive as real instances. Other messages on the port are
+ * left alone.
+ *
+ * ```ts
+ * // main thread
+ * const bridge = remoteBridge(worker, { timeoutMs: 5000 });
+ * const reply = bridge.value<number>();
+ * worker.postMessage({ op: "sum", items, replyTo: reply.id });
+ * const total = double(reply);
+ *
+ * // worker
+ * const bridge = remoteBridge(self);
+ * self.onmessage = (e) => bridge.fill(e.data.replyTo, sum(e.data.items));
+ * ```
+ */
+export class RemoteBridge implements Disposable {
+  private readonly pending = new Map<string, RemoteValue<unknown>>();
+  private closed = false;
+
+  constructor(
+    private readonly endpoint: MessageEndpoint,
+    private readonly options: RemoteBridgeOptions = {},
+  ) {
+    endpoint.addEventListener("message", this.onMessage);
+    endpoint.addEventListener("close", this.onClose);
+    endpoint.start?.();
+  }
+
+  /** Number of values still waiting for the other side. */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /** A value the other side settles by `id`. Fails with `RemoteCancelled` once the bridge is closed. */
+  value<T>(options: RemoteValueOptions = {}): RemoteValue<T> {
+    const remote = new RemoteValue<T>({ timeoutMs: this.options.timeoutMs, ...options });
+    if (this.closed) {
+      remote.cancel();
+      return remote;
+    }
+    this.pending.set(remote.id, remote as RemoteValue<unknown>);
+    const forget = () => void this.pending.delete(remote.id);
+    remote.then(forget, forget);
+    return remote;
+  }
+
+  /** Settle the other side's value `id` with `value`. */
+  fill(id: string, value: unknown): void {
+    this.post(id, serialize(ok(value)));
+  }
+
+  /** Fail the other side's value `id` with `reason`. */
+  fail(id: string, reason: unknown): void {
+    this.post(id, serialize(err(reason)));
+  }
+
+  /**
+   * Stop listening and fail every pending value with `reason`, or with its own
+   * `RemoteCancelled` if none is given. Runs by itself when the endpoint emits
+   * `close`. The endpoint is left open.
+   */
+  close(reason?: unknown): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.endpoint.removeEventListener("message", this.onMessage);
+    this.endpoint.removeEventListener("close", this.onClose);
+    for (const remote of [...this.pending.values()]) {
+      if (reason === undefined) remote.cancel();
+      else remote.fail(reason);
+    }
+    this.pending.clear();
+  }
+
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  private post(id: string, data: SerializedFect): void {
+    this.endpoint.postMessage({ $remoteValue: id, data } satisfies SettleMessage);
+  }
+
+  private readonly onMessage = (event: MessageEvent): void => {
+    if (!isSettleMessage(event.data)) return;
+    const remote = this.pending.get(event.data.$remoteValue);
+    if (!remote) return;
+    const payload = deserialize(event.data.data).payload as Payload<unknown, unknown>;
+    if (payload.tag === "ok") remote.fill(payload.value);
+    else remote.fail(payload.error);
+  };
+
+  private readonly onClose = (): void => {
+    this.close();
+  };
+}
+
+export function remoteBridge(
+  endpoint: MessageEndpoint,
+  options: RemoteBridgeOptions = {},
+): RemoteBridge {
+  return new RemoteBridge(endpoint, options);
+}
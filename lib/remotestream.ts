@@ -0,0 +1,183 @@
+import { defaultMapRejected, defectPayload, type Fect, fromPayload, makeCore, type PromiseRejected, toCore } from "./fect.ts";
+
+export type RemoteStreamOptions = {
+  name?: string;
+  /** Values held for the consumer before `overflow` applies. Unbounded by default. */
+  bufferSize?: number;
+  /**
+   * What `push` does when the buffer is full: drop the new value, drop the
+   * oldest buffered value, or fail the stream. `write` waits for room instead.
+   */
+  overflow?: "drop-newest" | "drop-oldest" | "error";
+};
+
+type Waiter<T> = {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Multi-shot counterpart to `RemoteValue`: push many values from another code
+ * path, then `end()` or `fail()`. Consume it once with `for await`, as
+ * carriers with `items()`, or all at once with `collect()`.
+ *
+ * ```ts
+ * const updates = remoteStream<number>({ bufferSize: 16 });
+ * socket.onmessage = (e) => updates.push(Number(e.data));
+ * socket.onclose = () => updates.end();
+ *
+ * for await (const n of updates) render(n);
+ * ```
+ */
+export class RemoteStream<T> implements AsyncIterable<T>, Disposable {
+  public readonly id: string;
+  public readonly name: string;
+
+  private readonly buffer: T[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: NonNullable<RemoteStreamOptions["overflow"]>;
+  private readonly waiters: Waiter<T>[] = [];
+  private readonly writers: (() => void)[] = [];
+  private ended = false;
+  private failed = false;
+  private reason: unknown = undefined;
+
+  constructor(options: RemoteStreamOptions = {}) {
+    this.id = crypto.randomUUID();
+    this.name = options.name ?? "remote-stream";
+    this.bufferSize = options.bufferSize ?? Infinity;
+    this.overflow = options.overflow ?? "error";
+  }
+
+  /** True once the stream was ended or failed; buffered values can still be read. */
+  get isSettled(): boolean {
+    return this.ended;
+  }
+
+  /** Number of values waiting for the consumer. */
+  get buffered(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Offer a value. Returns false if the stream has settled or the value was
+   * dropped (or failed the stream) because the buffer is full.
+   */
+  push(value: T): boolean {
+    if (this.ended) return false;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ done: false, value });
+      return true;
+    }
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === "drop-newest") return false;
+      if (this.overflow === "error") {
+        this.fail(new Error(`RemoteStream '${this.name}' (${this.id}) buffer overflowed at ${this.bufferSize} values`));
+        return false;
+      }
+      this.buffer.shift();
+    }
+    this.buffer.push(value);
+    return true;
+  }
+
+  /**
+   * Push once the buffer has room, for producers that should slow down to the
+   * consumer's pace. Resolves false if the stream settled first.
+   */
+  async write(value: T): Promise<boolean> {
+    while (!this.ended && this.waiters.length === 0 && this.buffer.length >= this.bufferSize) {
+      await new Promise<void>((resolve) => this.writers.push(resolve));
+    }
+    return this.push(value);
+  }
+
+  /** Finish the stream; the consumer still reads what is buffered. */
+  end(): boolean {
+    if (this.ended) return false;
+    this.ended = true;
+    for (const waiter of this.waiters.splice(0)) waiter.resolve({ done: true, value: undefined });
+    this.wakeWriters();
+    return true;
+  }
+
+  /** Fail the stream; the consumer sees `reason` after the buffered values. */
+  fail(reason?: unknown): boolean {
+    if (this.ended) return false;
+    this.ended = true;
+    this.failed = true;
+    this.reason = reason;
+    for (const waiter of this.waiters.splice(0)) waiter.reject(reason);
+    this.wakeWriters();
+    return true;
+  }
+
+  /** Pull the next value, waiting if none is buffered. */
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T;
+      this.wakeWriters();
+      return Promise.resolve({ done: false, value });
+    }
+    if (this.failed) return Promise.reject(this.reason);
+    if (this.ended) return Promise.resolve({ done: true, value: undefined });
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  /** Breaking out of `for await` ends the stream, so producers stop. */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => this.next(),
+      return: () => {
+        this.end();
+        this.buffer.length = 0;
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  /**
+   * Each value as an ok carrier, ready to feed into `fn`. A failed stream
+   * yields one last `PromiseRejected` defect carrying the reason.
+   */
+  async *items(): AsyncGenerator<Fect<T, { defect: PromiseRejected }>, void, undefined> {
+    while (true) {
+      let result: IteratorResult<T>;
+      try {
+        result = await this.next();
+      } catch (cause) {
+        yield fromPayload(defectPayload(defaultMapRejected(cause)), { defect: [] }) as Fect<T, { defect: PromiseRejected }>;
+        return;
+      }
+      if (result.done) return;
+      yield makeCore({ tag: "ok", value: result.value }, {}) as Fect<T, { defect: PromiseRejected }>;
+    }
+  }
+
+  /** Every value once the stream ends, as an async carrier; a failure becomes a `PromiseRejected` defect. */
+  collect(): Fect<T[], { async: true; defect: PromiseRejected }> {
+    return toCore(Array.fromAsync(this)) as unknown as Fect<T[], { async: true; defect: PromiseRejected }>;
+  }
+
+  /** Fail a stream that has not settled, so `using` never leaves a consumer waiting forever. */
+  [Symbol.dispose](): void {
+    this.fail(new Error(`RemoteStream '${this.name}' (${this.id}) was disposed before it ended`));
+  }
+
+  private wakeWriters(): void {
+    for (const writer of this.writers.splice(0)) writer();
+  }
+
+  static create<T>(options: RemoteStreamOptions = {}): RemoteStream<T> {
+    return new RemoteStream<T>(options);
+  }
+}
+
+export function remoteStream<T>(options: RemoteStreamOptions = {}): RemoteStream<T> {
+  return new RemoteStream<T>(options);
+}
+
+export function isRemoteStream(value: unknown): value is RemoteStream<unknown> {
+  return value instanceof RemoteStream;
+}
@@ -1,20 +1,64 @@
+import { defectPayload, type Fect, FectError, type FectErrorClass, makeCoreAsync, TO_FECT } from "./fect.ts";
+import { registerErrors } from "./registry.ts";
+
+const RemoteTimeoutBase: FectErrorClass<"RemoteTimeout", { id: string; name: string; timeoutMs: number }> = FectError("RemoteTimeout")<
+  { id: string; name: string; timeoutMs: number }
+>();
+
+/** A `RemoteValue` was not settled within its `timeoutMs`. */
+export class RemoteTimeout extends RemoteTimeoutBase {}
+
+const RemoteCancelledBase: FectErrorClass<"RemoteCancelled", { id: string; name: string; reason?: unknown }> = FectError("RemoteCancelled")<
+  { id: string; name: string; reason?: unknown }
+>();
+
+/**
+ * A `RemoteValue` was given up on before it settled: cancelled, aborted,
+ * disposed or dropped by its bridge. `reason` is what `cancel` was given.
+ */
+export class RemoteCancelled extends RemoteCancelledBase {}
+
+registerErrors(RemoteTimeout, RemoteCancelled);
+
+/** Fx a `RemoteValue` contributes when passed to `fn`. */
+export type RemoteValueFx = { async: true; result: RemoteTimeout | RemoteCancelled };
+
 export type RemoteValueOptions = {
   name?: string;
   timeoutMs?: number;
   register?: boolean;
+  /** Cancel the value when this signal aborts, with the signal's reason. */
+  signal?: AbortSignal;
+  /** Hear about errors thrown by `onSettle` listeners; without it they are dropped. */
+  onListenerError?: (error: unknown) => void;
 };
 
+export type RemoteValueStatus = "pending" | "filled" | "failed" | "cancelled" | "timedOut";
+
+/** Settled state of a `RemoteValue`, as returned by `peek()` and given to `onSettle` listeners. */
+export type RemoteValueState<T> =
+  | { status: "pending" }
+  | { status: "filled"; value: T }
+  | { status: "failed"; reason: unknown }
+  | { status: "cancelled"; reason: RemoteCancelled }
+  | { status: "timedOut"; reason: RemoteTimeout };
+
 /**
  * One-shot value container for request/reply style async rendezvous.
- * Create locally, resolve or reject from another code path.
+ * Create locally, resolve or reject from another code path. Timing out
+ * rejects with `RemoteTimeout` and disposing with `RemoteCancelled`; passed to
+ * `fn`, those two arrive as domain errors and any other rejection as a defect.
  */
-export class RemoteValue<T> implements PromiseLike<T> {
+export class RemoteValue<T> implements PromiseLike<T>, Disposable, AsyncDisposable {
   private static registry = new Map<string, RemoteValue<unknown>>();
 
   public readonly id: string;
   public readonly name: string;
 
-  private settled = false;
+  private state: RemoteValueState<T> = { status: "pending" };
+  private readonly listeners = new Set<(state: RemoteValueState<T>) => void>();
+  private readonly signal: AbortSignal | undefined;
+  private readonly onListenerError: ((error: unknown) => void) | undefined;
   private timeoutId: number | null = null;
   private resolve!: (value: T) => void;
   private reject!: (reason?: unknown) => void;
@@ -34,34 +78,69 @@ export class RemoteValue<T> implements PromiseLike<T> {
     }
 
     if (typeof options.timeoutMs === "number" && options.timeoutMs > 0) {
+      const timeoutMs = options.timeoutMs;
       this.timeoutId = setTimeout(() => {
-        this.fail(
-          new Error(
-            `RemoteValue '${this.name}' (${this.id}) timed out after ${options.timeoutMs}ms`,
-          ),
-        );
-      }, options.timeoutMs) as unknown as number;
+        this.fail(RemoteTimeout.of({ id: this.id, name: this.name, timeoutMs }));
+      }, timeoutMs) as unknown as number;
     }
+
+    this.onListenerError = options.onListenerError;
+    this.signal = options.signal;
+    if (this.signal?.aborted) this.cancel(this.signal.reason);
+    else this.signal?.addEventListener("abort", this.onAbort, { once: true });
   }
 
   get isSettled(): boolean {
-    return this.settled;
+    return this.state.status !== "pending";
+  }
+
+  get status(): RemoteValueStatus {
+    return this.state.status;
+  }
+
+  /** The current state, without waiting. */
+  peek(): RemoteValueState<T> {
+    return this.state;
+  }
+
+  /**
+   * Call `listener` once the value settles, or right away if it already has.
+   * Returns a function that removes the listener.
+   */
+  onSettle(listener: (state: RemoteValueState<T>) => void): () => void {
+    if (this.isSettled) {
+      listener(this.state);
+      return () => {};
+    }
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
   }
 
   fill(value: T): boolean {
-    if (this.settled) return false;
-    this.settled = true;
-    this.resolve(value);
+    if (this.isSettled) return false;
+    this.settle({ status: "filled", value });
     return true;
   }
 
+  /** Reject the value. `RemoteCancelled` and `RemoteTimeout` reasons settle it as cancelled or timed out. */
   fail(reason?: unknown): boolean {
-    if (this.settled) return false;
-    this.settled = true;
-    this.reject(reason);
+    if (this.isSettled) return false;
+    this.settle(
+      reason instanceof RemoteCancelled ? { status: "cancelled", reason } : reason instanceof RemoteTimeout ? { status: "timedOut", reason } : { status: "failed", reason },
+    );
     return true;
   }
 
+  /**
+   * Give up on a pending value: it fails with `RemoteCancelled` carrying
+   * `reason`. Nobody waiting on a cancelled value is not an unhandled error.
+   */
+  cancel(reason?: unknown): boolean {
+    if (this.isSettled) return false;
+    this.promise.catch(() => {});
+    return this.fail(RemoteCancelled.of({ id: this.id, name: this.name, reason }));
+  }
+
   wait(): Promise<T> {
     return this.promise;
   }
@@ -77,7 +156,52 @@ export class RemoteValue<T> implements PromiseLike<T> {
     return this.promise.then(onfulfilled, onrejected);
   }
 
+  [TO_FECT](mapRejected: (cause: unknown) => unknown): Fect<T, RemoteValueFx> {
+    return makeCoreAsync(
+      this.promise.then(
+        (value) => ({ tag: "ok" as const, value }),
+        (cause) => isRemoteError(cause) ? { tag: "err" as const, error: cause } : defectPayload(mapRejected(cause)),
+      ),
+      { async: true, result: [], defect: [] },
+    ) as unknown as Fect<T, RemoteValueFx>;
+  }
+
+  /**
+   * Fail a still-pending value with `RemoteCancelled` and drop it from the
+   * registry, so `using` never leaves a rendezvous waiting forever.
+   */
+  [Symbol.dispose](): void {
+    this.cancel();
+  }
+
+  /** Like `[Symbol.dispose]`, then wait for the value to finish settling. */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this[Symbol.dispose]();
+    await this.promise.then(() => {}, () => {});
+  }
+
+  /** Settle the promise first, so a throwing listener cannot leave it pending. */
+  private settle(state: RemoteValueState<T>): void {
+    this.state = state;
+    if (state.status === "filled") this.resolve(state.value);
+    else if (state.status !== "pending") this.reject(state.reason);
+    const listeners = [...this.listeners];
+    this.listeners.clear();
+    for (const listener of listeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        this.onListenerError?.(error);
+      }
+    }
+  }
+
+  private readonly onAbort = (): void => {
+    this.cancel(this.signal?.reason);
+  };
+
   private cleanup(): void {
+    this.signal?.removeEventListener("abort", this.onAbort);
     if (this.timeoutId !== null) {
       clearTimeout(this.timeoutId);
       this.timeoutId = null;
@@ -106,6 +230,10 @@ export function remoteValue<T>(options: RemoteValueOptions = {}): RemoteValue<T>
   return new RemoteValue<T>(options);
 }
 
+function isRemoteError(cause: unknown): cause is RemoteTimeout | RemoteCancelled {
+  return cause instanceof RemoteTimeout || cause instanceof RemoteCancelled;
+}
+
 export function isRemoteValue(value: unknown): value is RemoteValue<unknown> {
   return typeof value === "object" && value !== null &&
     "wait" in value &&
@@ -115,4 +243,3 @@ export function isRemoteValue(value: unknown): value is RemoteValue<unknown> {
     "fail" in value &&
     typeof (value as { fail?: unknown }).fail === "function";
 }
-
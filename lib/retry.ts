@@ -0,0 +1,98 @@
+import {
+  type AnyPayload,
+  type Fect,
+  FectError,
+  type FectErrorClass,
+  type FxShape,
+  makeCoreAsync,
+  settleThunk,
+  type Simplify,
+  type ThunkReturn,
+} from "./fect.ts";
+import { registerErrors } from "./registry.ts";
+import { type Clock, defaultClock, type Schedule } from "./schedule.ts";
+
+type ErrorOfFx<Fx extends FxShape> = Fx extends { result: infer E } ? E : never;
+const RetriesExhaustedBase: FectErrorClass<
+  "RetriesExhausted",
+  { attempts: number; lastError: unknown }
+> = FectError("RetriesExhausted")<{ attempts: number; lastError: unknown }>();
+
+/** Reported when a schedule runs out of attempts; wraps the last error seen. */
+export class RetriesExhausted<E = unknown> extends RetriesExhaustedBase {
+  declare readonly lastError: E;
+}
+
+registerErrors(RetriesExhausted);
+
+export type RetryOptions = {
+  clock?: Clock;
+};
+
+type DefectOfFx<Fx extends FxShape> = Fx extends { defect: infer D } ? D : never;
+
+/** Retries cover defects too, so the last error seen may be either kind. */
+type RetryFx<Fx extends FxShape> = Simplify<
+  Omit<Fx, "result" | "defect"> & {
+    async: true;
+    result: ErrorOfFx<Fx> | RetriesExhausted<ErrorOfFx<Fx> | DefectOfFx<Fx>>;
+    defect: DefectOfFx<Fx>;
+  }
+>;
+
+/** Carrier produced by `retry(thunk, schedule)`. */
+export type RetryReturn<T> = ThunkReturn<T> extends Fect<infer A, infer Fx extends FxShape> ? Fect<A, RetryFx<Fx>>
+  : never;
+
+/**
+ * Keep re-running `rerun` while it settles with an error and `schedule`
+ * says to retry. Errors the schedule refuses are reported as-is; running out
+ * of attempts reports `RetriesExhausted`.
+ */
+export async function retryPayload(
+  first: PromiseLike<AnyPayload> | AnyPayload,
+  rerun: () => PromiseLike<AnyPayload> | AnyPayload,
+  schedule: Schedule,
+  clock: Clock = defaultClock,
+): Promise<AnyPayload> {
+  let payload = await first;
+  // A `None` is not a failure to retry.
+  for (let attempt = 1; payload.tag === "err" && !payload.none; attempt += 1) {
+    const decision = schedule.next(attempt, payload.error);
+    if (decision._tag === "Stop") return payload;
+    if (decision._tag === "Exhausted") {
+      return {
+        tag: "err",
+        error: RetriesExhausted.of({ attempts: attempt, lastError: payload.error }),
+      };
+    }
+    await clock.sleep(decision.delayMs);
+    payload = await rerun();
+  }
+  return payload;
+}
+
+/**
+ * Run `thunk` and re-run it on failure as directed by `schedule`. The thunk
+ * may return plain values, carriers, `Fail` or promises, so both
+ * `() => fetchUser(id)` and a zero-arg `fn` work.
+ *
+ * ```ts
+ * const user = retry(
+ *   () => fetchUser("denoland"),
+ *   Schedule.maxAttempts(Schedule.exponential(100), 5),
+ * );
+ * ```
+ */
+export function retry<T>(
+  thunk: () => T,
+  schedule: Schedule,
+  options: RetryOptions = {},
+): RetryReturn<T> {
+  const attempt = () => settleThunk(thunk);
+
+  return makeCoreAsync(
+    retryPayload(attempt(), attempt, schedule, options.clock),
+    { async: true, result: [], defect: [] },
+  ) as unknown as RetryReturn<T>;
+}
@@ -0,0 +1,196 @@
+import {
+  type AnyPayload,
+  defaultMapRejected,
+  defaultMapThrown,
+  defectPayload,
+  type Fail,
+  type Fect,
+  fromPayload,
+  type FxShape,
+  makeCoreAsync,
+  type Payload,
+  type PromiseRejected,
+  settleThunk,
+  TO_FECT,
+} from "./fect.ts";
+import { type RemoteCancelled, type RemoteTimeout, RemoteValue } from "./remotevalue.ts";
+import { deserialize, serialize, type SerializedFect } from "./serialize.ts";
+
+/** Anything that can carry messages both ways: a WebSocket wrapper, a port, `memoryTransport()`. */
+export type RpcTransport = {
+  send(message: unknown): void;
+  /** Listen for incoming messages; returns a function that stops listening. */
+  onMessage(listener: (message: unknown) => void): () => void;
+};
+
+declare const RPC_METHOD: unique symbol;
+
+/** A method's argument list, success value and tagged error union. Only its type matters. */
+export type RpcMethod<Args extends unknown[], A, E = never> = {
+  readonly [RPC_METHOD]?: { readonly args: Args; readonly value: A; readonly error: E };
+};
+
+// deno-lint-ignore no-explicit-any
+export type RpcApi = Record<string, RpcMethod<any, any, any>>;
+
+/** Fx of a client call: its own errors, plus the reply timing out or being cancelled. */
+export type RpcFx<E> = { async: true; result: E | RemoteTimeout | RemoteCancelled; defect: PromiseRejected };
+
+/** Client methods for `Api`, each returning an async carrier for the reply. */
+export type RpcClient<Api extends RpcApi> =
+  & {
+    readonly [K in keyof Api]: Api[K] extends RpcMethod<infer Args, infer A, infer E> ? (...args: Args) => Fect<A, RpcFx<E>> : never;
+  }
+  & Disposable;
+
+type HandlerResult<A, E> = A | Fail<E> | Fect<A, FxShape>;
+
+/** Server handlers for `Api`: plain functions or `fn`s returning the value, a `Fail` or a carrier. */
+export type RpcHandlers<Api extends RpcApi> = {
+  readonly [K in keyof Api]: Api[K] extends RpcMethod<infer Args, infer A, infer E> ? (...args: Args) => HandlerResult<A, E> | PromiseLike<HandlerResult<A, E>>
+    : never;
+};
+
+export type RpcClientOptions = {
+  /** How long each call waits for its reply. */
+  timeoutMs?: number;
+};
+
+type CallMessage = { $rpc: "call"; id: string; method: string; args: unknown[] };
+type ReplyMessage = { $rpc: "reply"; id: string; data: SerializedFect };
+
+function isRpcMessage<K extends "call" | "reply">(message: unknown, kind: K): message is K extends "call" ? CallMessage : ReplyMessage {
+  return typeof message === "object" && message !== null && (message as { $rpc?: unknown }).$rpc === kind &&
+    typeof (message as { id?: unknown }).id === "string";
+}
+
+/** Declare one method of an API: `rpcMethod<[id: string], User, NotFound>()`. */
+export function rpcMethod<Args extends unknown[], A, E = never>(): RpcMethod<Args, A, E> {
+  return {};
+}
+
+/**
+ * Declare an API shared by client and server. Tagged errors travel through
+ * `serialize`, so register their classes on the client to get instances back.
+ *
+ * ```ts
+ * const UserApi = defineRpc({
+ *   getUser: rpcMethod<[id: string], User, NotFound>(),
+ * });
+ * ```
+ */
+export function defineRpc<const Api extends RpcApi>(methods: Api): Api {
+  return methods;
+}
+
+/**
+ * Call `Api` over `transport`. Each call sends `{ id, method, args }` and
+ * returns an async carrier backed by a `RemoteValue`, settled by the reply
+ * with the same id to a call this client made:
+ *
+ * ```ts
+ * using users = rpcClient(UserApi, transport, { timeoutMs: 5000 });
+ * await match(users.getUser("7")).with({
+ *   ok: render,
+ *   err: { NotFound: notFound, RemoteTimeout: retryLater, RemoteCancelled: () => {} },
+ * });
+ * ```
+ *
+ * A call whose message `transport.send` throws on fails with that error as a
+ * defect. Disposing the client stops listening and cancels calls still waiting.
+ */
+export function rpcClient<Api extends RpcApi>(
+  api: Api,
+  transport: RpcTransport,
+  options: RpcClientOptions = {},
+): RpcClient<Api> {
+  const pending = new Map<string, RemoteValue<AnyPayload>>();
+  const stop = transport.onMessage((message) => {
+    if (!isRpcMessage(message, "reply")) return;
+    pending.get(message.id)?.fill(deserialize(message.data).payload);
+  });
+
+  const call = (method: string, args: unknown[]): Fect<unknown, FxShape> => {
+    const reply = new RemoteValue<AnyPayload>({ name: method, timeoutMs: options.timeoutMs });
+    pending.set(reply.id, reply);
+    reply.onSettle(() => pending.delete(reply.id));
+    // The reply's own payload replaces the RemoteValue's ok once it arrives.
+    const settled = reply[TO_FECT](defaultMapRejected).payload as unknown as Promise<Payload<AnyPayload, unknown>>;
+    try {
+      transport.send({ $rpc: "call", id: reply.id, method, args } satisfies CallMessage);
+    } catch (cause) {
+      reply.fail(cause);
+    }
+    return makeCoreAsync(
+      settled.then((payload) => payload.tag === "ok" ? payload.value : payload),
+      { async: true, result: [], defect: [] },
+    );
+  };
+
+  const methods = Object.fromEntries(Object.keys(api).map((method) => [method, (...args: unknown[]) => call(method, args)]));
+  return Object.assign(methods, {
+    [Symbol.dispose]() {
+      stop();
+      for (const reply of [...pending.values()]) reply.cancel();
+    },
+  }) as unknown as RpcClient<Api>;
+}
+
+/**
+ * Answer calls to `Api` arriving over `transport` with `handlers`. Each
+ * result is settled like an `fn` output (throws and rejections become
+ * defects) and sent back serialized. Calls to unknown methods get a defect,
+ * and so do results that cannot be serialized; a reply `transport.send` throws
+ * on is dropped, leaving the call to its client's timeout. Dispose the
+ * returned handle to stop answering.
+ */
+export function rpcServe<Api extends RpcApi>(
+  api: Api,
+  transport: RpcTransport,
+  handlers: RpcHandlers<Api>,
+): Disposable {
+  const stop = transport.onMessage((message) => {
+    if (!isRpcMessage(message, "call")) return;
+    const { id, method, args } = message;
+    const handler = Object.hasOwn(api, method) ? (handlers as Record<string, (...args: unknown[]) => unknown>)[method] : undefined;
+    const payload = handler === undefined ? defectPayload(defaultMapThrown(new Error(`Unknown RPC method '${method}'`))) : settleThunk(() => handler(...args));
+    const reply = (settled: AnyPayload) => {
+      const data = serialize(fromPayload(settled, {}));
+      transport.send({ $rpc: "reply", id, data } satisfies ReplyMessage);
+    };
+    Promise.resolve(payload)
+      .then(reply)
+      .catch((cause) => reply(defectPayload(defaultMapThrown(cause))))
+      .catch(() => {});
+  });
+  return { [Symbol.dispose]: stop };
+}
+
+/**
+ * Two connected in-memory transports for tests. Messages are delivered on a
+ * later microtask through `structuredClone`, as they would be over a port.
+ */
+export function memoryTransport(): [RpcTransport, RpcTransport] {
+  const listeners: [Set<(message: unknown) => void>, Set<(message: unknown) => void>] = [new Set(), new Set()];
+  const side = (own: number): RpcTransport => ({
+    send(message) {
+      const copy = structuredClone(message);
+      queueMicrotask(() => {
+        for (const listener of [...listeners[1 - own]]) listener(copy);
+      });
+    },
+    onMessage(listener) {
+      listeners[own].add(listener);
+      return () => void listeners[own].delete(listener);
+    },
+  });
+  return [side(0), side(1)];
+}
+
+export const Rpc = {
+  method: rpcMethod,
+  define: defineRpc,
+  client: rpcClient,
+  serve: rpcServe,
+  memoryTransport,
+} as const;
@@ -0,0 +1,123 @@
+/** What a schedule decides after a failed attempt. */
+export type ScheduleDecision =
+  | { readonly _tag: "Retry"; readonly delayMs: number }
+  | { readonly _tag: "Exhausted" }
+  | { readonly _tag: "Stop" };
+
+/**
+ * A retry policy. `next` is asked after every failed attempt (1-based) with the
+ * error that attempt produced.
+ */
+export interface Schedule {
+  next(attempt: number, error: unknown): ScheduleDecision;
+}
+
+/** Time source used to wait between attempts; swap it out in tests. */
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+/** A clock that never waits and records every requested delay. */
+export type TestClock = Clock & { readonly sleeps: readonly number[] };
+
+export const defaultClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export function testClock(start = 0): TestClock {
+  let current = start;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => current,
+    sleep(ms) {
+      sleeps.push(ms);
+      current += ms;
+      return Promise.resolve();
+    },
+  };
+}
+
+function retryAfter(delayMs: number): ScheduleDecision {
+  return { _tag: "Retry", delayMs };
+}
+
+/** Retry forever, waiting `delayMs` between attempts. */
+export function fixed(delayMs: number): Schedule {
+  return { next: () => retryAfter(delayMs) };
+}
+
+/** Retry forever, waiting `baseMs * factor^(attempt - 1)`, capped at `maxDelayMs`. */
+export function exponential(
+  baseMs: number,
+  factor = 2,
+  maxDelayMs = Number.POSITIVE_INFINITY,
+): Schedule {
+  return {
+    next: (attempt) => retryAfter(Math.min(baseMs * factor ** (attempt - 1), maxDelayMs)),
+  };
+}
+
+/** Scale every delay of `schedule` by a random factor in [0.8, 1.2). */
+export function jittered(
+  schedule: Schedule,
+  random: () => number = Math.random,
+): Schedule {
+  return {
+    next(attempt, error) {
+      const decision = schedule.next(attempt, error);
+      if (decision._tag !== "Retry") return decision;
+      return retryAfter(decision.delayMs * (0.8 + 0.4 * random()));
+    },
+  };
+}
+
+/** Give up with `Exhausted` once `attempts` attempts (including the first) have failed. */
+export function maxAttempts(schedule: Schedule, attempts: number): Schedule {
+  return {
+    next(attempt, error) {
+      if (attempt >= attempts) return { _tag: "Exhausted" };
+      return schedule.next(attempt, error);
+    },
+  };
+}
+
+/** Only retry errors accepted by `predicate`; anything else stops and is reported as-is. */
+export function whileError(
+  schedule: Schedule,
+  predicate: (error: unknown) => boolean,
+): Schedule {
+  return {
+    next(attempt, error) {
+      if (!predicate(error)) return { _tag: "Stop" };
+      return schedule.next(attempt, error);
+    },
+  };
+}
+
+/** Only retry tagged errors whose `_tag` is listed. */
+export function whileTag(
+  schedule: Schedule,
+  tags: readonly string[],
+): Schedule {
+  return whileError(
+    schedule,
+    (error) =>
+      typeof error === "object" &&
+      error !== null &&
+      tags.includes((error as { _tag?: unknown })._tag as string),
+  );
+}
+
+export const Schedule = {
+  fixed,
+  exponential,
+  jittered,
+  maxAttempts,
+  while: whileError,
+  whileTag,
+  defaultClock,
+  testClock,
+} as const;
@@ -0,0 +1,252 @@
+import { type AnyPayload, defaultMapThrown, defectPayload, type Fect, fromPayload, type FxShape, isFect, isPromiseLike, makeCoreAsync, settleThunk, type ThunkReturn } from "./fect.ts";
+
+/** Runs when its scope closes; receives the payload the scope closed with. */
+export type Finalizer = (exit: AnyPayload) => void | PromiseLike<void>;
+
+/** Value a thunk's carrier succeeds with. */
+export type ResourceOf<T> = ThunkReturn<T> extends Fect<infer A, infer _Fx extends FxShape> ? A : never;
+
+/**
+ * A bag of finalizers closed once, in reverse order of registration. Works
+ * with `using` / `await using`:
+ *
+ * ```ts
+ * await using scope = new Scope();
+ * const conn = acquireRelease(() => db.connect(), (c) => c.close(), scope);
+ * ```
+ */
+export class Scope implements Disposable, AsyncDisposable {
+  /**
+   * Receives finalizer failures no caller can wait for: closing after a sync
+   * `match` / `Fect.try`, `using` disposal, or a release registered on a scope
+   * that already closed. Set it when releases can fail async; unset, those
+   * failures stay unhandled rejections.
+   */
+  static reportError: ((error: unknown) => void) | undefined;
+
+  private finalizers: Finalizer[] = [];
+  private exit: AnyPayload | undefined;
+
+  get isClosed(): boolean {
+    return this.exit !== undefined;
+  }
+
+  /** Register `finalizer`; on an already closed scope it runs right away. */
+  addFinalizer(finalizer: Finalizer): void | Promise<void> {
+    if (this.exit) return runFinalizers([finalizer], this.exit);
+    this.finalizers.push(finalizer);
+  }
+
+  /**
+   * Run every finalizer, last registered first. Async finalizers are awaited
+   * one after another; a failing finalizer does not stop the rest, and its
+   * error is rethrown once all have run. Closing twice is a no-op.
+   */
+  close(exit: AnyPayload = { tag: "ok", value: undefined }): void | Promise<void> {
+    if (this.exit) return;
+    this.exit = exit;
+    const finalizers = this.finalizers.reverse();
+    this.finalizers = [];
+    return runFinalizers(finalizers, exit);
+  }
+
+  [Symbol.dispose](): void {
+    report(this.close());
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+}
+
+function runFinalizers(
+  finalizers: readonly Finalizer[],
+  exit: AnyPayload,
+): void | Promise<void> {
+  const errors: unknown[] = [];
+  const runFrom = (index: number): void | Promise<void> => {
+    for (let i = index; i < finalizers.length; i += 1) {
+      let out: void | PromiseLike<void>;
+      try {
+        out = finalizers[i](exit);
+      } catch (cause) {
+        errors.push(cause);
+        continue;
+      }
+      if (isPromiseLike(out)) {
+        return Promise.resolve(out).then(
+          () => runFrom(i + 1),
+          (cause) => {
+            errors.push(cause);
+            return runFrom(i + 1);
+          },
+        );
+      }
+    }
+    if (errors.length === 1) throw errors[0];
+    if (errors.length > 1) throw new AggregateError(errors, "Scope finalizers failed");
+  };
+  return runFrom(0);
+}
+
+/** Hand the failure of a close nobody awaits to `Scope.reportError`, when one is set. */
+function report(closing: void | Promise<void>): void {
+  const reportError = Scope.reportError;
+  if (isPromiseLike(closing) && reportError) closing.then(undefined, (error) => reportError(error));
+}
+
+/** Scopes each carrier holds open. */
+const carrierScopes = new WeakMap<object, Scope[]>();
+
+/** Scope that `acquireRelease` registers into while a `scoped` thunk runs. */
+let activeScope: Scope | undefined;
+
+/** Scopes a carrier holds open: acquired by it or inherited through `fn`. */
+export function scopesOf(input: unknown): readonly Scope[] {
+  if (typeof input !== "object" || input === null) return [];
+  return carrierScopes.get(input) ?? [];
+}
+
+/**
+ * Attach `scopes` to a carrier. The array is kept by reference, so scopes
+ * adopted later (from an async handler's output) still reach the carrier.
+ */
+export function attachScopes<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  scopes: Scope[],
+): T {
+  if (scopes.length > 0 || !carrierScopes.has(carrier)) carrierScopes.set(carrier, scopes);
+  return carrier;
+}
+
+export function mergeScopes(scopes: ReadonlyArray<readonly Scope[]>): Scope[] {
+  return [...new Set(scopes.flat())];
+}
+
+/** Add the scopes held by `source` (if it is a carrier) to `into`. */
+export function adoptScopes(into: Scope[], source: unknown): void {
+  if (!isFect(source)) return;
+  for (const scope of scopesOf(source)) {
+    if (!into.includes(scope)) into.push(scope);
+  }
+}
+
+/** Close `scopes` in reverse order, awaiting each before the next. */
+export function closeScopes(
+  scopes: readonly Scope[],
+  exit: AnyPayload,
+): void | Promise<void> {
+  return runFinalizers(
+    [...scopes].reverse().map((scope) => (closeExit) => scope.close(closeExit)),
+    exit,
+  );
+}
+
+/**
+ * Run `body` for a carrier being discharged (by `match` or `try`), then close
+ * the scopes it holds with `exit`, whether `body` returns or throws. Promise
+ * results close once they settle; `awaitClose` also waits for async
+ * finalizers before handing back the result; otherwise their failures go to
+ * `Scope.reportError`.
+ */
+export function discharge<T>(
+  carrier: unknown,
+  exit: AnyPayload,
+  body: () => T,
+  awaitClose = false,
+): T {
+  const scopes = scopesOf(carrier);
+  if (scopes.length === 0) return body();
+
+  let result: T;
+  try {
+    result = body();
+  } catch (cause) {
+    report(closeScopes(scopes, exit));
+    throw cause;
+  }
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).finally(() => closeScopes(scopes, exit)) as T;
+  }
+  const closing = closeScopes(scopes, exit);
+  if (awaitClose && isPromiseLike(closing)) {
+    return closing.then(() => result) as T;
+  }
+  report(closing);
+  return result;
+}
+
+/**
+ * Acquire a resource and register `release` for it. The returned carrier (and
+ * every `fn` result fed from it) holds the scope open; `match` / `Fect.try` on
+ * any of them closes it, whether the pipeline succeeded or failed. Inside
+ * `scoped` the resource joins that scope instead.
+ *
+ * ```ts
+ * const file = acquireRelease(() => Deno.open(path), (f) => f.close());
+ * const text = readAll(file);
+ * await match(text).with({ ok: console.log, err: console.error }); // file closed here
+ * ```
+ */
+export function acquireRelease<T>(
+  acquire: () => T,
+  release: (resource: ResourceOf<T>, exit: AnyPayload) => void | PromiseLike<void>,
+  scope: Scope = activeScope ?? new Scope(),
+): ThunkReturn<T> {
+  const register = (payload: AnyPayload): AnyPayload => {
+    if (payload.tag === "ok") {
+      report(scope.addFinalizer((exit) => release(payload.value as ResourceOf<T>, exit)));
+    }
+    return payload;
+  };
+  const payload = settleThunk(acquire);
+  const carrier = fromPayload(
+    isPromiseLike(payload) ? Promise.resolve(payload).then(register) : register(payload),
+    { result: [], defect: [] },
+  );
+  return attachScopes(carrier, [scope]) as unknown as ThunkReturn<T>;
+}
+
+/**
+ * Run `thunk` in a fresh scope and close it as soon as the result settles, so
+ * resources acquired inside never outlive it. Finalizers are awaited, so a
+ * sync result whose finalizers are async comes back async; a failing
+ * finalizer turns the result into an `UnknownException` defect.
+ *
+ * ```ts
+ * const rows = scoped(() => query(acquireRelease(connect, (c) => c.close()), sql));
+ * ```
+ */
+export function scoped<T>(thunk: () => T): ThunkReturn<T> {
+  const scope = new Scope();
+  const scopes = [scope];
+  const adopt = (raw: unknown) => adoptScopes(scopes, raw);
+
+  const previous = activeScope;
+  activeScope = scope;
+  let payload: AnyPayload | PromiseLike<AnyPayload>;
+  try {
+    payload = settleThunk(thunk, adopt);
+  } finally {
+    activeScope = previous;
+  }
+
+  const finish = (settled: AnyPayload): AnyPayload | Promise<AnyPayload> => {
+    const failed = (cause: unknown): AnyPayload => defectPayload(defaultMapThrown(cause));
+    let closing: void | Promise<void>;
+    try {
+      closing = closeScopes(scopes, settled);
+    } catch (cause) {
+      return failed(cause);
+    }
+    return isPromiseLike(closing) ? closing.then(() => settled, failed) : settled;
+  };
+
+  if (isPromiseLike(payload)) {
+    return makeCoreAsync(
+      Promise.resolve(payload).then(finish),
+      { async: true, result: [], defect: [] },
+    ) as unknown as ThunkReturn<T>;
+  }
+  return fromPayload(finish(payload), { result: [], defect: [] }) as unknown as ThunkReturn<T>;
+}
@@ -0,0 +1,149 @@
+import { type AnyPayload, type Fect, fromPayload, type FxShape, isFectError, isPromiseLike, mergeFxRuntime, type TaggedError } from "./fect.ts";
+import { registeredError } from "./registry.ts";
+
+export { registerErrors, type TaggedErrorClass } from "./registry.ts";
+
+function isRegisteredError(value: object): boolean {
+  const errorClass = registeredError((value as { _tag?: unknown })._tag as string);
+  return errorClass !== undefined && Object.prototype.isPrototypeOf.call(errorClass.prototype, value);
+}
+
+declare const SERIALIZED_TYPES: unique symbol;
+
+/**
+ * A carrier as plain data that survives `postMessage`, `structuredClone` and
+ * JSON. Tagged errors are stored by `_tag` and fields, exceptions by name,
+ * message and stack; `Date`, `Map` and `Set` values are kept. Other class
+ * instances and circular values cannot be serialized. The type parameters
+ * only remember what it was.
+ */
+export type SerializedFect<A = unknown, Fx extends FxShape = FxShape> = {
+  readonly $fect: 1;
+  readonly payload: AnyPayload;
+  readonly fx: FxShape;
+  readonly [SERIALIZED_TYPES]?: { readonly value: A; readonly fx: Fx };
+};
+
+type EncodedError = { $error: string; fields: Record<string, unknown> };
+type EncodedException = { $exception: { name: string; message: string; stack?: string; cause?: unknown } };
+type EncodedDate = { $date: string };
+type EncodedMap = { $map: [unknown, unknown][] };
+type EncodedSet = { $set: unknown[] };
+type EncodedObject = { $obj: Record<string, unknown> };
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** A plain object with a `$` key is wrapped in `$obj`, so it never reads as one of the markers above. */
+function encodeEntries(entries: ReadonlyArray<readonly [string, unknown]>): Record<string, unknown> | EncodedObject {
+  const object = Object.fromEntries(entries);
+  return entries.some(([key]) => key.startsWith("$")) ? { $obj: object } : object;
+}
+
+/** `parents` holds the objects being encoded above `value`, to catch cycles. */
+function encode(value: unknown, parents: Set<object> = new Set()): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (parents.has(value)) throw new TypeError("Cannot serialize a circular value");
+  parents.add(value);
+  try {
+    return encodeObject(value, (field) => encode(field, parents));
+  } finally {
+    parents.delete(value);
+  }
+}
+
+function encodeObject(value: object, inner: (field: unknown) => unknown): unknown {
+  if (Array.isArray(value)) return value.map(inner);
+  if (value instanceof Date) return { $date: value.toISOString() } satisfies EncodedDate;
+  if (value instanceof Map) return { $map: [...value].map(([key, field]) => [inner(key), inner(field)]) } satisfies EncodedMap;
+  if (value instanceof Set) return { $set: [...value].map(inner) } satisfies EncodedSet;
+  if (value instanceof Error) {
+    const exception: EncodedException["$exception"] = { name: value.name, message: value.message };
+    if (value.stack !== undefined) exception.stack = value.stack;
+    if (value.cause !== undefined) exception.cause = inner(value.cause);
+    return { $exception: exception };
+  }
+
+  const entries = Object.entries(value).map(([key, field]) => [key, inner(field)] as const);
+  if (isFectError(value) || isRegisteredError(value)) {
+    return { $error: (value as TaggedError)._tag, fields: encodeEntries(entries.filter(([key]) => key !== "_tag")) } satisfies EncodedError;
+  }
+  if (!isPlainObject(value)) {
+    throw new TypeError(`Cannot serialize an instance of ${value.constructor?.name || "a class"}`);
+  }
+  return encodeEntries(entries);
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (typeof value !== "object" || value === null) return value;
+
+  if ("$obj" in value) {
+    return Object.fromEntries(Object.entries((value as EncodedObject).$obj).map(([key, field]) => [key, decode(field)]));
+  }
+  if ("$date" in value) return new Date((value as EncodedDate).$date);
+  if ("$map" in value) return new Map((value as EncodedMap).$map.map(([key, field]) => [decode(key), decode(field)]));
+  if ("$set" in value) return new Set((value as EncodedSet).$set.map(decode));
+
+  if ("$exception" in value) {
+    const { name, message, stack, cause } = (value as EncodedException).$exception;
+    const exception = cause === undefined ? new Error(message) : new Error(message, { cause: decode(cause) });
+    exception.name = name;
+    if (stack !== undefined) exception.stack = stack;
+    return exception;
+  }
+
+  const decoded = Object.fromEntries(Object.entries(value).map(([key, field]) => [key, decode(field)]));
+  if ("$error" in value) {
+    const { $error: tag } = value as EncodedError;
+    const fields = { _tag: tag, ...(decoded.fields as Record<string, unknown>) };
+    // Unregistered tags come back as plain tagged objects, which `match` still dispatches on.
+    const errorClass = registeredError(tag);
+    return errorClass ? Object.assign(Object.create(errorClass.prototype), fields) : fields;
+  }
+  return decoded;
+}
+
+function serializePayload(payload: AnyPayload, fx: FxShape): SerializedFect {
+  return { $fect: 1, payload: encode(payload) as AnyPayload, fx: encode(fx) as FxShape };
+}
+
+/**
+ * Turn a carrier into plain data. Sync carriers serialize right away; async
+ * ones once they settle, so the result is a Promise for them.
+ *
+ * ```ts
+ * worker.postMessage(await serialize(loadUser(id)));
+ * ```
+ */
+export function serialize<A, Fx extends { async: true } & FxShape>(
+  input: Fect<A, Fx>,
+): Promise<SerializedFect<A, Fx>>;
+export function serialize<A, Fx extends FxShape>(
+  input: Fect<A, Fx>,
+): SerializedFect<A, Fx>;
+export function serialize(
+  input: Fect<unknown, FxShape>,
+): SerializedFect | Promise<SerializedFect> {
+  const payload = input.payload as AnyPayload | PromiseLike<AnyPayload>;
+  if (isPromiseLike(payload)) {
+    // Read fx after settling so it includes the error tag just recorded.
+    return Promise.resolve(payload).then((settled) => serializePayload(settled, input.fx));
+  }
+  return serializePayload(payload, input.fx);
+}
+
+/**
+ * Rebuild a carrier from `serialize` output. Tagged errors whose class is
+ * registered (see `registerErrors`) come back as instances of that class;
+ * exceptions come back as `Error`s. A carrier that was async is async again.
+ */
+export function deserialize<A, Fx extends FxShape>(
+  data: SerializedFect<A, Fx>,
+): Fect<A, Fx> {
+  const payload = decode(data.payload) as AnyPayload;
+  const fx = mergeFxRuntime(decode(data.fx) as FxShape, {});
+  return fromPayload(fx.async === true ? Promise.resolve(payload) : payload, fx) as unknown as Fect<A, Fx>;
+}
@@ -0,0 +1,169 @@
+import { type Defect, defectPayload, type Fect, FectError, type FectErrorClass, type FnReturn, type FxShape, isFect, makeCore, mergeFxRuntime, ok, type Simplify } from "./fect.ts";
+import { fn } from "./fn.ts";
+import { registerErrors } from "./registry.ts";
+
+const MissingServiceBase: FectErrorClass<"MissingService", { services: readonly string[] }> = FectError("MissingService")<{
+  services: readonly string[];
+}>();
+
+/** The defect a carrier settles with when it is run before its services are provided. */
+export class MissingService extends MissingServiceBase {}
+
+registerErrors(MissingService);
+
+/** Services supplied to a deferred carrier, keyed by service key. */
+export type ServiceEnv = ReadonlyMap<string, unknown>;
+
+/**
+ * A required service. It is itself a carrier: pass it to an `fn` like any
+ * other input (or read it with `.use`) and the result is infected with
+ * `{ requires: Service<S> }` until `provide` supplies an implementation.
+ */
+export interface Service<S> extends Fect<S, { requires: Service<S> }> {
+  readonly key: string;
+  use<H extends (service: S) => unknown>(
+    handler: H,
+  ): FnReturn<
+    Fect<S, { requires: Service<S> }>,
+    ReturnType<H>,
+    { defect: Defect }
+  >;
+}
+
+type RequirementsOf<Fx extends FxShape> = Fx extends { requires: infer R } ? R
+  : never;
+
+/** Remove `S` from the `requires` slot, dropping the slot once it is empty. */
+export type ProvideFx<Fx extends FxShape, S> = [Exclude<RequirementsOf<Fx>, S>] extends [never] ? Simplify<Omit<Fx, "requires">>
+  : Simplify<Omit<Fx, "requires"> & { requires: Exclude<RequirementsOf<Fx>, S> }>;
+
+type Deferred = {
+  readonly requires: readonly string[];
+  run(env: ServiceEnv): Fect<unknown, FxShape>;
+};
+
+/** Side table of carriers whose work waits on services; keyed by identity. */
+const deferredPrograms = new WeakMap<object, Deferred>();
+
+function deferredOf(value: unknown): Deferred | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  return deferredPrograms.get(value);
+}
+
+/** Runtime check: does this carrier still wait on a service? */
+export function isDeferred(value: unknown): boolean {
+  return deferredOf(value) !== undefined;
+}
+
+function makeDeferred(
+  requires: readonly string[],
+  run: (env: ServiceEnv) => Fect<unknown, FxShape>,
+  fx: FxShape,
+): Fect<unknown, FxShape> {
+  const cache = new WeakMap<ServiceEnv, Fect<unknown, FxShape>>();
+  const carrier = makeCore(
+    { tag: "ok", value: undefined },
+    mergeFxRuntime(fx, { requires: [...requires] }),
+  );
+  // Running it unprovided is a defect; set after `makeCore` so fx keeps
+  // reporting only what the carrier requires.
+  Object.defineProperty(carrier, "payload", {
+    value: defectPayload(MissingService.of({ services: requires })),
+  });
+  deferredPrograms.set(carrier, {
+    requires,
+    run(env) {
+      let out = cache.get(env);
+      if (!out) {
+        out = run(env);
+        cache.set(env, out);
+      }
+      return out;
+    },
+  });
+  return carrier;
+}
+
+function runDeferred(input: unknown, env: ServiceEnv): unknown {
+  const deferred = deferredOf(input);
+  return deferred ? deferred.run(env) : input;
+}
+
+/**
+ * If any input still waits on a service, return a deferred carrier that
+ * re-runs `rebuild` with those inputs once services are provided.
+ */
+export function deferInputs(
+  inputs: readonly unknown[],
+  rebuild: (provided: unknown[]) => unknown,
+): Fect<unknown, FxShape> | undefined {
+  const deferred = inputs.map(deferredOf).filter((d): d is Deferred => d !== undefined);
+  if (deferred.length === 0) return undefined;
+
+  const requires = [...new Set(deferred.flatMap((d) => d.requires))];
+  const fx = inputs.reduce<FxShape>(
+    (acc, input) => isFect(input) ? mergeFxRuntime(acc, input.fx) : acc,
+    {},
+  );
+  return makeDeferred(
+    requires,
+    (env) => rebuild(inputs.map((input) => runDeferred(input, env))) as Fect<unknown, FxShape>,
+    fx,
+  );
+}
+
+/**
+ * Declare a service the pipeline can require:
+ *
+ * ```ts
+ * const Db = service<DbApi>("Db");
+ * const loadUser = fn((db: DbApi, id: string) => db.find(id));
+ * const user = loadUser(Db, "42"); // Fect<User, { requires: Service<DbApi> }>
+ * ```
+ */
+export function service<S>(key: string): Service<S> {
+  const carrier: Fect<unknown, FxShape> = makeDeferred(
+    [key],
+    (env) => env.has(key) ? ok(env.get(key)) as Fect<unknown, FxShape> : carrier,
+    {},
+  );
+  return Object.assign(carrier, {
+    key,
+    use(handler: (service: S) => unknown) {
+      return fn(handler)(carrier as Fect<S, FxShape>);
+    },
+  }) as unknown as Service<S>;
+}
+
+/**
+ * One env per service and implementation, so `provide` reuses deferred
+ * results across calls. Keyed weakly, so dropped implementations are freed.
+ */
+const envs = new WeakMap<object, WeakMap<object, ServiceEnv>>();
+
+function envOf(service: Service<unknown>, impl: unknown): ServiceEnv {
+  // A primitive implementation cannot be a weak key, so it gets a fresh env.
+  if (typeof impl !== "function" && (typeof impl !== "object" || impl === null)) {
+    return new Map([[service.key, impl]]);
+  }
+  let byImpl = envs.get(service);
+  if (!byImpl) envs.set(service, byImpl = new WeakMap());
+  let env = byImpl.get(impl);
+  if (!env) byImpl.set(impl, env = new Map([[service.key, impl]]));
+  return env;
+}
+
+/**
+ * Supply an implementation for `service`. Work waiting only on provided
+ * services runs now; anything else stays deferred until provided too.
+ */
+export function provide<A, Fx extends FxShape, S>(
+  input: Fect<A, Fx>,
+  service: Service<S>,
+  impl: S,
+): Fect<A, ProvideFx<Fx, Service<S>>> {
+  return runDeferred(input, envOf(service as Service<unknown>, impl)) as Fect<
+    A,
+    ProvideFx<Fx, Service<S>>
+  >;
+}
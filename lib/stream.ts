@@ -0,0 +1,196 @@
+import {
+  type AnyPayload,
+  defaultMapRejected,
+  defectPayload,
+  type Fect,
+  type FxShape,
+  isFect,
+  makeCoreLazy,
+  markStarted,
+  type MergeFx,
+  mergeFxRuntime,
+  ok,
+  type PromiseRejected,
+  toCore,
+} from "./fect.ts";
+
+/**
+ * A carrier over many values of `A`, produced one at a time. `fn` maps it per
+ * element; `match` and `Fect.try` collect it into an `A[]`. The first error
+ * ends it. Its source is read once: matching the stream again reuses the
+ * collected result, but mapping it a second time (or matching it after
+ * mapping it) settles with a `PromiseRejected` defect.
+ */
+export type Stream<A, Fx extends FxShape = Record<never, never>> = Fect<A, MergeFx<Fx, { async: true; stream: true }>>;
+
+/** Each stream's elements, as payloads; an err payload is the last one. */
+const streamSources = new WeakMap<object, () => AsyncIterable<AnyPayload>>();
+
+function makeStream<A, Fx extends FxShape>(source: () => AsyncIterable<AnyPayload>, fx: FxShape): Stream<A, Fx> {
+  let read = false;
+  // One-shot sources (generators, sockets) cannot be replayed, so no source is.
+  const readOnce = (): AsyncIterable<AnyPayload> => {
+    if (!read) {
+      read = true;
+      return observe(source(), (settled) => markStarted(carrier, settled));
+    }
+    return (async function* () {
+      yield defectPayload(defaultMapRejected(new Error("This stream was already read; a stream can be consumed once")));
+    })();
+  };
+  const carrier = makeCoreLazy<A, FxShape>(() => collect(readOnce()), mergeFxRuntime(fx, { async: true, stream: true }));
+  streamSources.set(carrier, readOnce);
+  return carrier as unknown as Stream<A, Fx>;
+}
+
+/** Pass `elements` through, reporting the err payload that ended them (or ok) once they stop. */
+function observe(
+  elements: AsyncIterable<AnyPayload>,
+  report: (settled: Promise<AnyPayload>) => void,
+): AsyncIterable<AnyPayload> {
+  let settle!: (payload: AnyPayload) => void;
+  report(new Promise((resolve) => settle = resolve));
+  return (async function* () {
+    let last: AnyPayload = { tag: "ok", value: undefined };
+    try {
+      for await (const element of elements) {
+        if (element.tag === "err") last = element;
+        yield element;
+      }
+    } finally {
+      settle(last);
+    }
+  })();
+}
+
+async function collect(elements: AsyncIterable<AnyPayload>): Promise<AnyPayload> {
+  const values: unknown[] = [];
+  for await (const element of elements) {
+    if (element.tag === "err") return element;
+    values.push(element.value);
+  }
+  return { tag: "ok", value: values };
+}
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === "function"
+  );
+}
+
+/** Runtime check: is this carrier a `Stream`? */
+export function isStream(value: unknown): value is Stream<unknown, FxShape> {
+  return isFect(value) && streamSources.has(value);
+}
+
+/** Element payloads of a stream or a plain async iterable; rejections become defects through `mapRejected`. */
+export function elementsOf(
+  input: AsyncIterable<unknown> | Stream<unknown, FxShape>,
+  mapRejected: (cause: unknown) => unknown = defaultMapRejected,
+): AsyncIterable<AnyPayload> {
+  const source = streamSources.get(input);
+  if (source) return source();
+  return (async function* () {
+    try {
+      for await (const value of input as AsyncIterable<unknown>) yield { tag: "ok", value } as AnyPayload;
+    } catch (cause) {
+      yield defectPayload(mapRejected(cause));
+    }
+  })();
+}
+
+/**
+ * Wrap an async iterable (an async generator, a `RemoteStream`, a
+ * `ReadableStream`) or a plain iterable as a `Stream`. Nothing is read until
+ * the stream is mapped and consumed. A throw or rejection from the source
+ * ends the stream with a `PromiseRejected` defect.
+ *
+ * ```ts
+ * const ids = stream(db.cursor("SELECT id FROM users"));
+ * const users = loadUser(ids); // Stream<User, ...>, one lookup per id
+ * const all = await Fect.try(users); // User[]
+ * ```
+ */
+export function stream<A>(source: AsyncIterable<A> | Iterable<A>): Stream<A, { defect: PromiseRejected }> {
+  const iterable = isAsyncIterable(source) ? source : (async function* () {
+    yield* source as Iterable<A>;
+  })();
+  return makeStream(() => elementsOf(iterable), { defect: [] });
+}
+
+/**
+ * Split chunks of text (or bytes, decoded as UTF-8) into lines, for
+ * line-delimited formats like NDJSON. Blank lines are skipped.
+ *
+ * ```ts
+ * const parse = fn((line: string) => JSON.parse(line) as Row);
+ * const rows = parse(lines((await fetch(url)).body!));
+ * ```
+ */
+export function lines(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+): Stream<string, { defect: PromiseRejected }> {
+  return stream((async function* () {
+    const decoder = new TextDecoder();
+    let rest = "";
+    for await (const chunk of source) {
+      rest += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+      const parts = rest.split(/\r?\n/);
+      rest = parts.pop() as string;
+      for (const line of parts) if (line.trim() !== "") yield line;
+    }
+    rest += decoder.decode();
+    if (rest.trim() !== "") yield rest;
+  })());
+}
+
+/**
+ * Run `call` once per element of the stream inputs, passing other inputs as
+ * they are. With several streams, elements are paired up and the shortest
+ * stream ends the result. The first error, from a source or from `call`,
+ * is the result's last element.
+ */
+export function mapStream(
+  inputs: unknown[],
+  call: (...args: unknown[]) => unknown,
+  mapRejected: (cause: unknown) => unknown,
+): Stream<unknown, FxShape> {
+  const streamed = inputs.map((input) => isStream(input) || (!isFect(input) && isAsyncIterable(input)));
+  const fx = inputs.reduce<FxShape>(
+    (acc, input, i) => mergeFxRuntime(acc, isFect(input) ? input.fx : streamed[i] ? { defect: [] } : {}),
+    { result: [], defect: [] },
+  );
+
+  return makeStream(async function* () {
+    const iterators = inputs.map((input, i) => streamed[i] ? elementsOf(input as AsyncIterable<unknown>, mapRejected)[Symbol.asyncIterator]() : undefined);
+    try {
+      while (true) {
+        const args: unknown[] = [];
+        for (const [i, iterator] of iterators.entries()) {
+          if (!iterator) {
+            args.push(inputs[i]);
+            continue;
+          }
+          const next = await iterator.next();
+          if (next.done) return;
+          if (next.value.tag === "err") return yield next.value;
+          // As a carrier, so `call` settles throws and `Fail`s like any infected call.
+          args.push(ok(next.value.value));
+        }
+        const element = await toCore(call(...args), mapRejected).payload;
+        yield element;
+        if (element.tag === "err") return;
+      }
+    } finally {
+      await Promise.all(iterators.map((iterator) => iterator?.return?.()));
+    }
+  }, fx);
+}
+
+export const Stream = {
+  from: stream,
+  lines,
+  is: isStream,
+} as const;
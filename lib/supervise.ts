@@ -0,0 +1,165 @@
+import { type AnyPayload, type Fect, FectError, type FectErrorClass, type FxShape, makeCoreAsync, settleThunk, type ThunkReturn } from "./fect.ts";
+import { Actor, type ActorHandlers } from "./actor.ts";
+import { type Interrupted, interruptedPayload, runWithSignal } from "./interrupt.ts";
+import { registerErrors } from "./registry.ts";
+import { type Clock, defaultClock, fixed, type Schedule } from "./schedule.ts";
+
+const ChildFailedBase: FectErrorClass<"ChildFailed", { child: string; error: unknown; restarts: number }> = FectError("ChildFailed")<
+  { child: string; error: unknown; restarts: number }
+>();
+
+/** A supervised child failed and the backoff schedule refused to restart it. `error` is what the child failed with. */
+export class ChildFailed extends ChildFailedBase {}
+
+const RestartLimitExceededBase: FectErrorClass<
+  "RestartLimitExceeded",
+  { child: string; restarts: number; withinMs: number; lastFailure: ChildFailed }
+> = FectError("RestartLimitExceeded")<{ child: string; restarts: number; withinMs: number; lastFailure: ChildFailed }>();
+
+/** Children restarted more than `maxRestarts` times within `withinMs`, or the backoff ran out of attempts. */
+export class RestartLimitExceeded extends RestartLimitExceededBase {}
+
+registerErrors(ChildFailed, RestartLimitExceeded);
+
+export type SupervisorOptions = {
+  /** Restart only the failed child, or every child. Defaults to `"one-for-one"`. */
+  strategy?: "one-for-one" | "all-for-one";
+  /** Delay before each restart, asked with the child's restart count and error. Defaults to no delay. */
+  backoff?: Schedule;
+  /** Restarts allowed across all children within `withinMs`. Defaults to 3. */
+  maxRestarts?: number;
+  /** Window for `maxRestarts`, in milliseconds. Defaults to 5000. */
+  withinMs?: number;
+  clock?: Clock;
+  /** Stop every child and settle with `Interrupted` when this signal aborts. */
+  signal?: AbortSignal;
+};
+
+/** A child: a background task (any thunk `retry` accepts) or a factory for an `Actor`. */
+export type SupervisedChildren = Record<string, () => unknown>;
+
+// deno-lint-ignore no-explicit-any
+type ChildValue<T> = T extends Actor<infer S, any> ? S
+  : ThunkReturn<T> extends Fect<infer A, infer _Fx extends FxShape> ? A
+  : never;
+
+/** Carrier produced by `supervise`: every child's final value once all have finished. */
+export type SuperviseReturn<C extends SupervisedChildren> = Fect<
+  { [K in keyof C]: ChildValue<ReturnType<C[K]>> },
+  { async: true; result: ChildFailed | RestartLimitExceeded | Interrupted }
+>;
+
+type Running = { generation: number; controller: AbortController; actor: Actor<unknown, ActorHandlers<unknown>> | undefined };
+
+/**
+ * Run `children` under a supervisor. A child that finishes with a value is
+ * done; one that fails (a domain error, a throw or rejection, or an actor
+ * stopped by `stopOnDefect`) is restarted after the `backoff` delay:
+ * on its own with `"one-for-one"`, or together with every other child,
+ * which is stopped first, with `"all-for-one"`.
+ *
+ * The supervisor's carrier settles with every child's value once all are
+ * done, with `ChildFailed` when the backoff stops on an error, and with
+ * `RestartLimitExceeded` when restarts exceed `maxRestarts` within
+ * `withinMs`. Either way the remaining children are stopped: tasks through
+ * their signal (see `Fect.signal()`), actors with `stop()`.
+ *
+ * ```ts
+ * const app = supervise({
+ *   poller: () => pollFeed(Fect.signal()),
+ *   cache: () => actor(new Map(), cacheHandlers, { stopOnDefect: true }),
+ * }, { backoff: Schedule.exponential(100), maxRestarts: 5, withinMs: 60_000 });
+ * ```
+ */
+export function supervise<C extends SupervisedChildren>(
+  children: C,
+  options: SupervisorOptions = {},
+): SuperviseReturn<C> {
+  const strategy = options.strategy ?? "one-for-one";
+  const backoff = options.backoff ?? fixed(0);
+  const maxRestarts = options.maxRestarts ?? 3;
+  const withinMs = options.withinMs ?? 5000;
+  const clock = options.clock ?? defaultClock;
+  const names = Object.keys(children);
+
+  const running = new Map<string, Running>();
+  const results = new Map<string, unknown>();
+  const restarts = new Map(names.map((name) => [name, 0]));
+  const restartTimes: number[] = [];
+  let generation = 0;
+  let settled = false;
+  let settle!: (payload: AnyPayload) => void;
+  const outcome = new Promise<AnyPayload>((resolve) => settle = resolve);
+
+  const stopChild = (name: string): void => {
+    const child = running.get(name);
+    if (!child) return;
+    running.delete(name);
+    child.controller.abort(new Error(`Supervisor stopped child '${name}'`));
+    child.actor?.stop();
+  };
+
+  const finish = (payload: AnyPayload): void => {
+    if (settled) return;
+    settled = true;
+    options.signal?.removeEventListener("abort", onAbort);
+    for (const name of [...running.keys()]) stopChild(name);
+    settle(payload);
+  };
+
+  const start = (name: string): void => {
+    if (settled) return;
+    const child: Running = { generation: ++generation, controller: new AbortController(), actor: undefined };
+    running.set(name, child);
+    const payload = settleThunk(() =>
+      runWithSignal(child.controller.signal, () => {
+        const out = children[name]();
+        if (!(out instanceof Actor)) return out;
+        child.actor = out;
+        return out.done();
+      })
+    );
+    Promise.resolve(payload).then((settledPayload) => onExit(name, child.generation, settledPayload));
+  };
+
+  const onExit = (name: string, childGeneration: number, payload: AnyPayload): void => {
+    if (settled || running.get(name)?.generation !== childGeneration) return;
+    running.delete(name);
+    if (payload.tag === "ok") {
+      results.set(name, payload.value);
+      if (results.size === names.length) finish({ tag: "ok", value: Object.fromEntries(names.map((key) => [key, results.get(key)])) });
+      return;
+    }
+
+    const count = (restarts.get(name) ?? 0) + 1;
+    const failure = ChildFailed.of({ child: name, error: payload.error, restarts: count - 1 });
+    const decision = backoff.next(count, payload.error);
+    if (decision._tag === "Stop") return finish({ tag: "err", error: failure });
+
+    const now = clock.now();
+    restartTimes.push(now);
+    while (restartTimes.length > 0 && restartTimes[0] <= now - withinMs) restartTimes.shift();
+    if (decision._tag === "Exhausted" || restartTimes.length > maxRestarts) {
+      return finish({ tag: "err", error: RestartLimitExceeded.of({ child: name, restarts: count - 1, withinMs, lastFailure: failure }) });
+    }
+
+    restarts.set(name, count);
+    const restarting = strategy === "all-for-one" ? names : [name];
+    if (strategy === "all-for-one") {
+      for (const other of names) stopChild(other);
+      results.clear();
+    }
+    clock.sleep(decision.delayMs).then(() => restarting.forEach(start));
+  };
+
+  const onAbort = (): void => {
+    if (options.signal) finish(interruptedPayload(options.signal));
+  };
+
+  if (options.signal?.aborted) onAbort();
+  else options.signal?.addEventListener("abort", onAbort, { once: true });
+  names.forEach(start);
+  if (names.length === 0) finish({ tag: "ok", value: {} });
+
+  return makeCoreAsync(outcome, { async: true, result: [] }) as unknown as SuperviseReturn<C>;
+}
@@ -0,0 +1,94 @@
+import {
+  type AnyPayload,
+  defaultMapRejected,
+  defectPayload,
+  type Fect,
+  FectError,
+  type FectErrorClass,
+  type FectLazy,
+  forwardPayload,
+  type FxShape,
+  isPromiseLike,
+  makeCoreAsync,
+  type MergeFx,
+  mergeFxRuntime,
+  type PromiseRejected,
+  propagate,
+  toCore,
+} from "./fect.ts";
+import { cancelInputs, claimInputs } from "./interrupt.ts";
+import { registerErrors } from "./registry.ts";
+
+const TimeoutErrorBase: FectErrorClass<"TimeoutError", { timeoutMs: number }> = FectError("TimeoutError")<{ timeoutMs: number }>();
+
+/** Settled into a carrier when its async work outlives `timeoutMs`. */
+export class TimeoutError extends TimeoutErrorBase {}
+
+registerErrors(TimeoutError);
+
+/**
+ * Settle with `TimeoutError` if `payload` has not resolved within `timeoutMs`.
+ * The timer is cleared as soon as the payload wins the race; when the deadline
+ * wins, `onTimeout` gets the `TimeoutError` so the losing work can be aborted.
+ */
+export function raceTimeout(
+  payload: PromiseLike<AnyPayload>,
+  timeoutMs: number | undefined,
+  onTimeout?: (reason: TimeoutError) => void,
+): Promise<AnyPayload> {
+  if (timeoutMs === undefined) return Promise.resolve(payload);
+
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(() => {
+      const error = TimeoutError.of({ timeoutMs });
+      resolve({ tag: "err", error });
+      onTimeout?.(error);
+    }, timeoutMs);
+    Promise.resolve(payload).then(
+      (resolved) => {
+        clearTimeout(timeoutId);
+        resolve(resolved);
+      },
+      (cause) => {
+        clearTimeout(timeoutId);
+        resolve(defectPayload(defaultMapRejected(cause)));
+      },
+    );
+  });
+}
+
+/**
+ * Bound an async carrier (or promise) by a deadline. Sync carriers are
+ * already settled and pass through unchanged.
+ *
+ * ```ts
+ * const user = timeout(fetchUser("denoland"), 2_000);
+ * ```
+ */
+export function timeout<A, Fx extends { async: true } & FxShape>(
+  input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
+  timeoutMs: number,
+): Fect<A, MergeFx<Fx, { result: TimeoutError }>>;
+export function timeout<A, Fx extends FxShape>(
+  input: Fect<A, Fx> | FectLazy<Fect<A, Fx>>,
+  timeoutMs: number,
+): Fect<A, Fx>;
+export function timeout<A>(
+  input: PromiseLike<A>,
+  timeoutMs: number,
+): Fect<A, { async: true; result: TimeoutError; defect: PromiseRejected }>;
+export function timeout(
+  input: unknown,
+  timeoutMs: number,
+): Fect<unknown, FxShape> {
+  const core = toCore(input);
+  const payload = core.payload as AnyPayload | PromiseLike<AnyPayload>;
+  if (!isPromiseLike(payload)) return core;
+
+  claimInputs([core]);
+  const carrier = makeCoreAsync(
+    raceTimeout(forwardPayload(payload), timeoutMs, (reason) => cancelInputs([core], reason)),
+    mergeFxRuntime(core.fx, { result: [] }),
+  );
+  return propagate(carrier, core);
+}
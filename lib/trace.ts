@@ -0,0 +1,265 @@
+import { type AnyPayload, errorTagOf, type Fect, forwardPayload, type FxShape, isFect, isFectLazy, isPromiseLike, isUnstarted, onRun } from "./fect.ts";
+import { isDeferred } from "./service.ts";
+
+export type SpanContext = { readonly traceId: string; readonly spanId: string };
+
+/** One `fn` invocation. `endTime` and `status` fill in once the call settles. */
+export type Span = {
+  readonly traceId: string;
+  readonly spanId: string;
+  /** Span of the first traced input; spans of further inputs are `links`. */
+  readonly parentSpanId?: string;
+  readonly links: readonly SpanContext[];
+  readonly name: string;
+  readonly startTime: number;
+  endTime?: number;
+  /** `unset` while pending, or when the result is deferred or lazy. */
+  status: "unset" | "ok" | "err";
+  /** `_tag` of the error (or `typeof` for untagged errors) when `status` is `err`. */
+  errorTag?: string;
+  errorMessage?: string;
+  async: boolean;
+};
+
+export type SpanNode = Span & { readonly children: SpanNode[] };
+
+export type Instrumentation = {
+  onCall?(span: Span): void;
+  onSettle?(span: Span): void;
+};
+
+/** Returned by `instrument`; `remove()` or `using` detaches the hooks. */
+export type InstrumentationHandle = Disposable & { remove(): void };
+
+const instrumentations: Instrumentation[] = [];
+
+/** Spans of the calls each carrier came from. */
+const carrierSpans = new WeakMap<object, readonly Span[]>();
+
+/**
+ * Receive a span for every `fn` invocation: `onCall` when it starts and
+ * `onSettle` once its result settles. Hooks that throw are ignored so
+ * tracing never changes what a pipeline does.
+ *
+ * ```ts
+ * const exporter = inMemoryExporter();
+ * using _ = instrument(exporter);
+ * await match(pipeline).with({ ... });
+ * console.log(exporter.tree());
+ * ```
+ */
+export function instrument(hooks: Instrumentation): InstrumentationHandle {
+  instrumentations.push(hooks);
+  const remove = () => {
+    const index = instrumentations.indexOf(hooks);
+    if (index >= 0) instrumentations.splice(index, 1);
+  };
+  return { remove, [Symbol.dispose]: remove };
+}
+
+/** Spans of the `fn` calls a carrier came from. */
+export function spansOf(input: unknown): readonly Span[] {
+  if (typeof input !== "object" || input === null) return [];
+  return carrierSpans.get(input) ?? [];
+}
+
+export function attachSpans<T extends Fect<unknown, FxShape>>(
+  carrier: T,
+  spans: readonly Span[],
+): T {
+  if (spans.length > 0) carrierSpans.set(carrier, spans);
+  return carrier;
+}
+
+export function mergeSpans(spans: ReadonlyArray<readonly Span[]>): Span[] {
+  return [...new Set(spans.flat())];
+}
+
+function notify(hook: "onCall" | "onSettle", span: Span): void {
+  for (const hooks of [...instrumentations]) {
+    try {
+      hooks[hook]?.(span);
+    } catch {
+      // Tracing is observational; a broken exporter must not break the call.
+    }
+  }
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(bytes)),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function settleSpan(span: Span, payload: AnyPayload | undefined): void {
+  span.endTime = Date.now();
+  if (payload?.tag === "ok") {
+    span.status = "ok";
+  } else if (payload?.tag === "err") {
+    const error = payload.error as { _tag?: unknown; message?: unknown; cause?: unknown };
+    span.status = "err";
+    span.errorTag = errorTagOf(error);
+    const cause = typeof error === "object" && error !== null ? error.cause as { message?: unknown } | undefined : undefined;
+    const message = cause?.message ?? (typeof error === "object" && error !== null ? error.message : undefined);
+    if (typeof message === "string") span.errorMessage = message;
+  }
+  notify("onSettle", span);
+}
+
+/**
+ * Run one `fn` invocation inside a span. Without instrumentation this is just
+ * `run()`. The span's parents are the spans of the carrier inputs, and the
+ * returned carrier carries the new span on to downstream calls.
+ */
+export function traceCall(
+  name: string,
+  inputs: readonly unknown[],
+  run: () => unknown,
+): unknown {
+  if (instrumentations.length === 0) return run();
+
+  const [parent, ...links] = mergeSpans(inputs.map(spansOf));
+  const span: Span = {
+    traceId: parent?.traceId ?? randomHex(16),
+    spanId: randomHex(8),
+    parentSpanId: parent?.spanId,
+    links: links.map(({ traceId, spanId }) => ({ traceId, spanId })),
+    name,
+    startTime: Date.now(),
+    status: "unset",
+    async: false,
+  };
+  notify("onCall", span);
+
+  let out: unknown;
+  try {
+    out = run();
+  } catch (cause) {
+    settleSpan(span, { tag: "err", error: cause });
+    throw cause;
+  }
+
+  if (!isFect(out)) {
+    settleSpan(span, isFectLazy(out) ? undefined : { tag: "ok", value: out });
+    return out;
+  }
+  if (isDeferred(out)) {
+    settleSpan(span, undefined);
+    return out;
+  }
+  attachSpans(out, [span]);
+  const payload = out.payload as AnyPayload | PromiseLike<AnyPayload>;
+  if (isUnstarted(out)) {
+    // Reading a lazy carrier would start it: close the span once a consumer does.
+    span.async = true;
+    onRun(out, (settled) => settleSpan(span, settled));
+  } else if (isPromiseLike(payload)) {
+    span.async = true;
+    forwardPayload(payload).then((settled) => settleSpan(span, settled));
+  } else {
+    settleSpan(span, payload);
+  }
+  return out;
+}
+
+/** Arrange spans into trees by `parentSpanId`; spans whose parent is missing become roots. */
+export function spanTree(spans: readonly Span[]): SpanNode[] {
+  const nodes = new Map(spans.map((span) => [span.spanId, { ...span, children: [] as SpanNode[] }]));
+  const roots: SpanNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentSpanId === undefined ? undefined : nodes.get(node.parentSpanId);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+type OtlpAttribute = {
+  key: string;
+  value: { stringValue: string } | { boolValue: boolean };
+};
+
+export type OtlpSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  links: SpanContext[];
+  status: { code: 0 | 1 | 2; message?: string };
+};
+
+/** OTLP/JSON trace export (`ExportTraceServiceRequest`). */
+export type OtlpTraceExport = {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+};
+
+const msToNanos = (ms: number): string => (BigInt(Math.round(ms)) * 1_000_000n).toString();
+
+function otlpStatus(span: Span): OtlpSpan["status"] {
+  if (span.status === "ok") return { code: 1 };
+  if (span.status === "err") return { code: 2, message: span.errorMessage ?? span.errorTag };
+  return { code: 0 };
+}
+
+/** Export spans in the OTLP/JSON shape accepted by OpenTelemetry collectors. */
+export function toOtlpJson(spans: readonly Span[], serviceName = "fect"): OtlpTraceExport {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: [{ key: "service.name", value: { stringValue: serviceName } }],
+      },
+      scopeSpans: [{
+        scope: { name: "fect" },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId === undefined ? {} : { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          kind: 1,
+          startTimeUnixNano: msToNanos(span.startTime),
+          endTimeUnixNano: msToNanos(span.endTime ?? span.startTime),
+          attributes: [
+            { key: "fect.async", value: { boolValue: span.async } },
+            ...(span.errorTag === undefined ? [] : [{ key: "fect.error_tag", value: { stringValue: span.errorTag } }]),
+          ],
+          links: span.links.map(({ traceId, spanId }) => ({ traceId, spanId })),
+          status: otlpStatus(span),
+        })),
+      }],
+    }],
+  };
+}
+
+/** Collects every span in memory; handy in tests. */
+export class InMemoryExporter implements Instrumentation {
+  readonly spans: Span[] = [];
+
+  onCall(span: Span): void {
+    this.spans.push(span);
+  }
+
+  /** Spans arranged as trees; see `spanTree`. */
+  tree(): SpanNode[] {
+    return spanTree(this.spans);
+  }
+
+  toOtlpJson(serviceName?: string): OtlpTraceExport {
+    return toOtlpJson(this.spans, serviceName);
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+export function inMemoryExporter(): InMemoryExporter {
+  return new InMemoryExporter();
+}
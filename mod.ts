@@ -1,10 +1,90 @@
-export * from "./lib/fect.ts";
-export * from "./lib/match.ts";
-export * from "./lib/remotevalue.ts";
-export * from "./lib/adts.ts";
-export * from "./lib/list.ts";
+export {
+  defaultMapRejected,
+  defaultMapThrown,
+  err,
+  type Fail,
+  fail,
+  FectError,
+  type FectErrorClass,
+  type FectLazy,
+  fn,
+  type FnMaybeRawReturn,
+  type FnOptions,
+  type FnReturn,
+  forceFectLazy,
+  type FxShape,
+  get,
+  isErr,
+  isFail,
+  isFect,
+  isFectLazy,
+  isOk,
+  isPromiseLike,
+  lazy,
+  makeCore,
+  makeCoreAsync,
+  mergeFxRuntime,
+  type MergeInputFx10,
+  type MergeInputFx11,
+  type MergeInputFx12,
+  type MergeInputFx2,
+  type MergeInputFx3,
+  type MergeInputFx4,
+  type MergeInputFx5,
+  type MergeInputFx6,
+  type MergeInputFx7,
+  type MergeInputFx8,
+  type MergeInputFx9,
+  ok,
+  type PromiseRejected,
+  props,
+  raise,
+  settleToPayload,
+  type Simplify,
+  type TaggedError,
+  type UnknownException,
+} from "./lib/fect.ts";
+export { match, partial } from "./lib/match.ts";
+export { isRemoteValue, RemoteValue, remoteValue, type RemoteValueOptions } from "./lib/remotevalue.ts";
+export {
+  flatMap,
+  fromNullable,
+  getOrElse,
+  isNone,
+  isSome,
+  map,
+  matchOption,
+  None,
+  Option,
+  Some,
+  toResult,
+} from "./lib/adts.ts";
+export { at, atOption, length, List, ListIndexOutOfBounds, prepend, slice } from "./lib/list.ts";
+
+// Everything added since is reached through `Fect` and the `Option`,
+// `Result`, `List`, `Schedule` and `Stream` namespaces; these are its types.
+export { type Err, type Ok, Result } from "./lib/adts.ts";
+export type { Accumulated } from "./lib/all.ts";
+export type { Actor, ActorOptions, ActorStopped } from "./lib/actor.ts";
+export type { Cause } from "./lib/cause.ts";
+export type { FxInfo } from "./lib/inspect.ts";
+export type { Interrupted } from "./lib/interrupt.ts";
+export type { MessageEndpoint, RemoteBridge, RemoteBridgeOptions } from "./lib/remotebridge.ts";
+export type { RemoteStream, RemoteStreamOptions } from "./lib/remotestream.ts";
+export type { RemoteCancelled, RemoteTimeout } from "./lib/remotevalue.ts";
+export type { RetriesExhausted, RetryOptions } from "./lib/retry.ts";
+export type { RpcApi, RpcClient, RpcClientOptions, RpcHandlers, RpcMethod, RpcTransport } from "./lib/rpc.ts";
+export { type Clock, Schedule, type ScheduleDecision, type TestClock } from "./lib/schedule.ts";
+export type { Finalizer, Scope } from "./lib/scope.ts";
+export type { SerializedFect } from "./lib/serialize.ts";
+export type { MissingService, Service } from "./lib/service.ts";
+export { Stream } from "./lib/stream.ts";
+export type { ChildFailed, RestartLimitExceeded, SupervisorOptions } from "./lib/supervise.ts";
+export type { TimeoutError } from "./lib/timeout.ts";
+export type { InMemoryExporter, Instrumentation, Span, SpanNode } from "./lib/trace.ts";
 
 import {
+  defectToThrow,
   err,
   fail,
   forceFectLazy,
@@ -24,9 +104,33 @@ import {
   raise,
 } from "./lib/fect.ts";
 import { match, partial } from "./lib/match.ts";
-import { isRemoteValue, RemoteValue, remoteValue } from "./lib/remotevalue.ts";
-import * as Option from "./lib/adts.ts";
-import * as List from "./lib/list.ts";
+import { Accumulated, all, allSettled, validate } from "./lib/all.ts";
+import { abortable, currentSignal, Interrupted, signalOf } from "./lib/interrupt.ts";
+import { timeout, TimeoutError } from "./lib/timeout.ts";
+import { retry, RetriesExhausted } from "./lib/retry.ts";
+import { isDeferred, MissingService, provide, service } from "./lib/service.ts";
+import { acquireRelease, discharge, Scope, scoped } from "./lib/scope.ts";
+import { inMemoryExporter, instrument, spanTree, toOtlpJson } from "./lib/trace.ts";
+import { annotate, causeOf, prettyCause } from "./lib/cause.ts";
+import { fxOf, inspect } from "./lib/inspect.ts";
+import { deserialize, registerErrors, serialize } from "./lib/serialize.ts";
+import { isRemoteValue, RemoteCancelled, RemoteTimeout, RemoteValue, remoteValue } from "./lib/remotevalue.ts";
+import { RemoteBridge, remoteBridge } from "./lib/remotebridge.ts";
+import { isRemoteStream, RemoteStream, remoteStream } from "./lib/remotestream.ts";
+import { isStream, lines, Stream, stream } from "./lib/stream.ts";
+import { Rpc } from "./lib/rpc.ts";
+import { actor, Actor, ActorStopped } from "./lib/actor.ts";
+import { ChildFailed, RestartLimitExceeded, supervise } from "./lib/supervise.ts";
+import * as OptionModule from "./lib/adts.ts";
+import { Option, Result } from "./lib/adts.ts";
+import { List } from "./lib/list.ts";
+import { Schedule } from "./lib/schedule.ts";
+
+/** The `Option` module without `Result`, which shares it but is its own namespace. */
+const OptionMembers: Omit<typeof OptionModule, "Ok" | "Err" | "Result"> = (() => {
+  const { Ok: _ok, Err: _err, Result: _result, ...members } = OptionModule;
+  return members;
+})();
 
 function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
   return (
@@ -36,9 +140,18 @@ function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
   );
 }
 
+function tryFect<A, Fx extends { async: true; stream: true } & FxShape>(
+  input: FectValue<A, Fx> | FectLazy<FectValue<A, Fx>>,
+): Promise<A[]>;
+function tryFect<A, Fx extends { async: true; option: true } & FxShape>(
+  input: FectValue<A, Fx> | FectLazy<FectValue<A, Fx>>,
+): Promise<A | undefined>;
 function tryFect<A, Fx extends { async: true } & FxShape>(
   input: FectValue<A, Fx> | FectLazy<FectValue<A, Fx>> | A | FectLazy<A>,
 ): Promise<A>;
+function tryFect<A, Fx extends { option: true } & FxShape>(
+  input: FectValue<A, Fx> | FectLazy<FectValue<A, Fx>>,
+): A | undefined;
 function tryFect<A, Fx extends FxShape>(
   input: FectValue<A, Fx> | FectLazy<FectValue<A, Fx>> | A | FectLazy<A>,
 ): A;
@@ -53,18 +166,21 @@ function tryFect<A, Fx extends FxShape>(
   }
   const payload = resolvedInput.payload as
     | { tag: "ok"; value: A }
-    | { tag: "err"; error: unknown }
-    | Promise<{ tag: "ok"; value: A } | { tag: "err"; error: unknown }>;
+    | { tag: "err"; error: unknown; defect?: boolean; none?: boolean }
+    | Promise<{ tag: "ok"; value: A } | { tag: "err"; error: unknown; defect?: boolean; none?: boolean }>;
+
+  // Defects rethrow the original exception; domain errors throw as-is; `None` is `undefined`.
+  const unwrap = (settled: { tag: "ok"; value: A } | { tag: "err"; error: unknown; defect?: boolean; none?: boolean }) => () => {
+    if (settled.tag === "ok") return settled.value;
+    if (settled.none) return undefined as A;
+    throw settled.defect ? defectToThrow(settled.error) : settled.error;
+  };
 
   if (isPromiseLike(payload)) {
-    return Promise.resolve(payload).then((resolved) => {
-      if (resolved.tag === "err") throw resolved.error;
-      return resolved.value;
-    });
+    return Promise.resolve(payload).then((resolved) => discharge(resolvedInput, resolved, unwrap(resolved), true));
   }
 
-  if (payload.tag === "err") throw payload.error;
-  return payload.value;
+  return discharge(resolvedInput, payload, unwrap(payload));
 }
 
 /**
@@ -86,6 +202,37 @@ export const Fect = {
   match,
   partial,
   try: tryFect,
+  all,
+  allSettled,
+  validate,
+  Accumulated,
+  abortable,
+  signal: currentSignal,
+  signalOf,
+  Interrupted,
+  timeout,
+  TimeoutError,
+  retry,
+  RetriesExhausted,
+  service,
+  provide,
+  isDeferred,
+  MissingService,
+  acquireRelease,
+  scoped,
+  Scope,
+  instrument,
+  inMemoryExporter,
+  spanTree,
+  toOtlpJson,
+  annotate,
+  causeOf,
+  prettyCause,
+  fxOf,
+  inspect,
+  serialize,
+  deserialize,
+  registerErrors,
   isOk,
   isErr,
   isFect,
@@ -93,6 +240,27 @@ export const Fect = {
   RemoteValue,
   remoteValue,
   isRemoteValue,
-  Option,
+  RemoteTimeout,
+  RemoteCancelled,
+  RemoteBridge,
+  remoteBridge,
+  remoteStream,
+  RemoteStream,
+  isRemoteStream,
+  stream,
+  Stream,
+  isStream,
+  lines,
+  rpc: Rpc,
+  actor,
+  Actor,
+  ActorStopped,
+  supervise,
+  ChildFailed,
+  RestartLimitExceeded,
+  // The whole module, as before `Option` grew its own API object.
+  Option: { ...OptionMembers, ...Option },
+  Result,
   List,
+  Schedule,
 } as const;
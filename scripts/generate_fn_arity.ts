@@ -79,31 +79,34 @@ function generateFnOverloads(maxArity: number): string {
     );
     lines.push("  DRejected = PromiseRejected,");
     lines.push("  DThrown = UnknownException,");
+    lines.push("  TimeoutMs extends number = never,");
+    lines.push("  RetrySchedule extends Schedule = never,");
+    lines.push("  OptionMode extends boolean = false,");
     lines.push(">(");
     lines.push("  handler: H,");
-    lines.push("  options?: FnOptions<DRejected, DThrown>,");
+    lines.push("  options?: FnOptions<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>,");
     lines.push("): {");
     lines.push("  (");
     lines.push(
       fnArgs.map((name, i) => `    ${name}: Parameters<H>[${i}],`).join("\n"),
     );
     lines.push(
-      "  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, DRejected | DThrown>;",
+      "  ): FnMaybeRawReturn<Parameters<H>, ReturnType<H>, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>;",
     );
     lines.push("  <");
     lines.push(
       genericArgs
-        .map((name, i) => `    ${name} extends InfectedArg<Parameters<H>[${i}]>,`)
+        .map((name, i) => `    ${name} extends InfectedArg<Parameters<H>[${i}], OptionMode>,`)
         .join("\n"),
     );
     lines.push("  >(");
     lines.push(fnArgs.map((name, i) => `    ${name}: ${genericArgs[i]},`).join("\n"));
     lines.push("  ): FnReturn<");
     lines.push(
-      `    Fect<unknown, MergeInputFx${n}<${genericArgs.join(", ")}, DRejected | DThrown>>,`,
+      `    Fect<unknown, MergeInputFx${n}<${genericArgs.join(", ")}, FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>>>,`,
     );
     lines.push("    ReturnType<H>,");
-    lines.push("    DRejected | DThrown");
+    lines.push("    FnDefect<DRejected, DThrown, TimeoutMs, RetrySchedule, OptionMode>");
     lines.push("  >;");
     lines.push("};");
   }
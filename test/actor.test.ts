@@ -0,0 +1,89 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class Overdrawn extends FectError("Overdrawn")<{ balance: number }>() {}
+
+const account = (options: { stopOnDefect?: boolean } = {}) =>
+  Fect.actor({ balance: 0, log: [] as string[] }, {
+    deposit: async (ctx, msg: { amount: number }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      ctx.state = { balance: ctx.state.balance + msg.amount, log: [...ctx.state.log, `+${msg.amount}`] };
+      return ctx.state.balance;
+    },
+    withdraw: (ctx, msg: { amount: number }) => {
+      if (msg.amount > ctx.state.balance) return Overdrawn.err({ balance: ctx.state.balance });
+      ctx.state = { balance: ctx.state.balance - msg.amount, log: [...ctx.state.log, `-${msg.amount}`] };
+      return ctx.state.balance;
+    },
+    crash: () => {
+      throw new Error("boom");
+    },
+    balance: (ctx) => ctx.state.balance,
+  }, { name: "account", ...options });
+
+Deno.test("actor handles messages one at a time in arrival order", async () => {
+  using acct = account();
+  acct.tell({ _tag: "deposit", amount: 10 });
+  acct.tell({ _tag: "deposit", amount: 5 });
+  const after = acct.ask({ _tag: "withdraw", amount: 12 });
+
+  assertEquals(acct.size, 3);
+  assertEquals(await Fect.try(acct.ask({ _tag: "balance" })), 3);
+  assertEquals(acct.state.log, ["+10", "+5", "-12"]);
+  const double = fn((n: number) => n * 2);
+  assertEquals(await match(double(after)).with({ ok: (n) => n, err: { Overdrawn: () => -1, ActorStopped: () => -2 } }), 6);
+});
+
+Deno.test("actor asks carry the handler's tagged errors and defects without stopping it", async () => {
+  using acct = account();
+  const overdrawn = await match(acct.ask({ _tag: "withdraw", amount: 1 })).with({
+    ok: () => "ok",
+    err: { Overdrawn: (e) => `overdrawn at ${e.balance}`, ActorStopped: () => "stopped" },
+  });
+  assertEquals(overdrawn, "overdrawn at 0");
+
+  const crashed = await match(acct.ask({ _tag: "crash" })).with({
+    ok: () => "ok",
+    err: { ActorStopped: () => "stopped" },
+    defect: (e) => `${e._tag} ${(e.cause as Error).message}`,
+  });
+  assertEquals(crashed, "UnknownException boom");
+  assertEquals(acct.isStopped, false);
+  assertEquals(await Fect.try(acct.ask({ _tag: "deposit", amount: 1 })), 1);
+});
+
+Deno.test("a stopped actor settles queued and later asks with ActorStopped", async () => {
+  const acct = account({ stopOnDefect: true });
+  acct.tell({ _tag: "crash" });
+  const queued = acct.ask({ _tag: "balance" });
+  const reason = await match(queued).with({
+    ok: () => undefined,
+    err: { ActorStopped: (e) => e },
+    defect: () => undefined,
+  });
+  assertEquals(reason instanceof Fect.ActorStopped, true);
+  assertEquals([reason?.name, (reason?.reason as { _tag: string })._tag], ["account", "UnknownException"]);
+  assertEquals(acct.tell({ _tag: "balance" }), false);
+
+  using stopped = account();
+  stopped.stop("closing");
+  const late = await match(stopped.ask({ _tag: "balance" })).with({
+    ok: () => "",
+    err: { ActorStopped: (e) => `${e.reason}` },
+    defect: () => "",
+  });
+  assertEquals(late, "closing");
+});
+
+if (false) {
+  using acct = account();
+  // @ts-expect-error messages must name a handler
+  acct.tell({ _tag: "transfer" });
+  // @ts-expect-error messages carry what their handler takes
+  acct.ask({ _tag: "deposit" });
+  match(acct.ask({ _tag: "withdraw", amount: 1 })).with({
+    ok: (n: number) => n,
+    // @ts-expect-error Overdrawn must be handled
+    err: { ActorStopped: () => 0 },
+  });
+}
@@ -1,5 +1,5 @@
-import { assertEquals } from "jsr:@std/assert";
-import { None, Some, type Option, Option as OptionNs } from "../mod.ts";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { Fect, FectError, fn, match, None, type Option, Option as OptionNs, Result, Schedule, Some } from "../mod.ts";
 
 Deno.test("Option constructors and guards", () => {
   const some = Some(42);
@@ -18,6 +18,15 @@ Deno.test("Option map/flatMap/getOrElse", () => {
   assertEquals(OptionNs.getOrElse(missing, () => 5), 5);
 });
 
+Deno.test("Fect.Option keeps every member of the Option module", () => {
+  assertEquals(Fect.Option.matchOption(Some(2), { Some: (v) => v * 2, None: () => 0 }), 4);
+  assertEquals(Fect.Option.Option, OptionNs);
+  for (const key of ["None", "Some", "isSome", "isNone", "fromNullable", "map", "flatMap", "getOrElse", "toResult", "matchOption"]) {
+    assertEquals(key in Fect.Option, true, key);
+  }
+  assertEquals("Result" in Fect.Option, false);
+});
+
 Deno.test("Option toResult integrates with Fect.match", () => {
   const out = OptionNs.toResult(Some("x"), () => "none");
   const msg = OptionNs.toResult(None as Option<string>, () => "none");
@@ -29,3 +38,156 @@ Deno.test("Option toResult integrates with Fect.match", () => {
   assertEquals(errValue, "none");
 });
 
+Deno.test("Option.toFect unwraps Some through fn and matches it with ok", () => {
+  const double = fn((n: number) => n * 2);
+  const out = double(OptionNs.toFect(Some(21)));
+  assertEquals(match(out).with({ ok: (n) => n, none: () => -1 }), 42);
+  assertEquals([Fect.fxOf(out).option, Fect.fxOf(out).effects, Fect.fxOf(out).errors], [true, [], []]);
+});
+
+Deno.test("Option.toFect short-circuits None and match takes the none branch", async () => {
+  let calls = 0;
+  const double = fn((n: number) => (calls++, n * 2));
+  const missing = double(OptionNs.toFect(None as Option<number>));
+  assertEquals(match(missing).with({ ok: (n) => `${n}`, none: () => "none" }), "none");
+  assertEquals(calls, 0);
+  // `None` is the option infection, not a tagged error.
+  assertEquals([Fect.fxOf(missing).option, Fect.fxOf(missing).effects, Fect.fxOf(missing).errors], [true, [], []]);
+
+  const later = double(Promise.resolve(2));
+  const both = fn((a: number, b: number) => a + b)(later, OptionNs.toFect(None as Option<number>));
+  assertEquals(await match(both).with({ ok: (n) => `${n}`, none: () => "none", defect: () => "defect" }), "none");
+});
+
+Deno.test("an fn returning Option.toFect is option-infected", () => {
+  const parseDigit = fn((c: string) => OptionNs.toFect(c >= "0" && c <= "9" ? Some(Number(c)) : None));
+  const label = fn((n: number) => `digit ${n}`);
+  const show = (c: string) => match(label(parseDigit(c))).with({ ok: (s) => s, none: () => "not a digit" });
+  assertEquals([show("7"), show("x")], ["digit 7", "not a digit"]);
+  assertEquals(Fect.try(parseDigit("4")), 4);
+  assertEquals(Fect.try(parseDigit("x")), undefined);
+});
+
+Deno.test("fn with { option: true } unwraps Some inputs and short-circuits None", async () => {
+  let calls = 0;
+  const add = fn((a: number, b: number) => (calls++, a + b), { option: true });
+  assertEquals(match(add(Some(1), 2)).with({ ok: (n) => `${n}`, none: () => "none" }), "3");
+  assertEquals(match(add(1, None)).with({ ok: (n) => `${n}`, none: () => "none" }), "none");
+  assertEquals(calls, 1);
+  assertEquals(Fect.inspect(add(1, None)), "Fect.none { option }");
+  assertEquals(add(1, 2), 3);
+
+  const double = fn((n: number) => n * 2, { option: true });
+  assertEquals(Fect.try(double(Some(4))), 8);
+  assertEquals(await Fect.try(double(Promise.resolve(4))), 8);
+  assertEquals(Fect.try(double(None)), undefined);
+
+  // Without the option, an Option is a plain value like any other.
+  const tagOf = fn((option: Option<number>) => option._tag);
+  assertEquals(tagOf(None), "None");
+});
+
+Deno.test("a None is not an error to retry, accumulate or report", async () => {
+  let attempts = 0;
+  const lookup = fn((_: number) => (attempts++, OptionNs.toFect(None as Option<number>)), {
+    retry: Schedule.maxAttempts(Schedule.fixed(0), 3),
+  });
+  assertEquals(await match(lookup(1)).with({ ok: (n) => `${n}`, none: () => "none", err: () => "err", defect: () => "defect" }), "none");
+  assertEquals(attempts, 1);
+
+  const some = OptionNs.toFect(Some(1));
+  const none = OptionNs.toFect(None as Option<number>);
+  assertEquals(match(Fect.validate(some, none)).with({ ok: () => "ok", none: () => "none" }), "none");
+  assertEquals(Fect.causeOf(none), undefined);
+
+  assertEquals(Result.fromFect(some), Result.Ok(Some(1)));
+  assertEquals(Result.fromFect(none), Result.Ok(None));
+  assertEquals(Result.fromFect(Fect.ok(1)), Result.Ok(1));
+});
+
+Deno.test("an error tagged None is an ordinary error", () => {
+  class None extends FectError("None")() {}
+  const out = Fect.err(None.of());
+  assertEquals(match(out).with({ ok: () => "ok", err: { None: () => "err" } }), "err");
+  assertEquals(Fect.fxOf(out).option, false);
+  assertEquals(Result.fromFect(out), Result.Err(None.of()));
+});
+
+Deno.test("Option filter, orElse, tap, zip and conversions", () => {
+  const some = Some(4) as Option<number>;
+  const none = None as Option<number>;
+  const seen: number[] = [];
+
+  assertEquals(OptionNs.filter(some, (n) => n > 3), Some(4));
+  assertEquals(OptionNs.filter(some, (n) => n > 5), None);
+  assertEquals(OptionNs.orElse(none, () => Some(1)), Some(1));
+  assertEquals(OptionNs.orElse(some, () => Some(1)), Some(4));
+  assertEquals(OptionNs.tap(some, (n) => seen.push(n)), Some(4));
+  OptionNs.tap(none, (n) => seen.push(n));
+  assertEquals(seen, [4]);
+
+  assertEquals(OptionNs.zip(some, Some("a")), Some([4, "a"]));
+  assertEquals(OptionNs.zip(some, None), None);
+  assertEquals(OptionNs.zipWith(some, Some(2), (a, b) => a * b), Some(8));
+
+  assertEquals([OptionNs.toNullable(none), OptionNs.toUndefined(none), OptionNs.toNullable(some)], [null, undefined, 4]);
+  assertEquals(OptionNs.fromPredicate(3, (n) => n % 2 === 1), Some(3));
+  assertEquals(OptionNs.fromPredicate(2, (n) => n % 2 === 1), None);
+});
+
+Deno.test("Option.all and firstSome work over arrays and records", () => {
+  assertEquals(OptionNs.all([Some(1), Some("a")]), Some([1, "a"]));
+  assertEquals(OptionNs.all([Some(1), None]), None);
+  assertEquals(OptionNs.all({ id: Some(1), name: Some("Ada") }), Some({ id: 1, name: "Ada" }));
+  assertEquals(OptionNs.all({ id: Some(1), name: None }), None);
+
+  assertEquals(OptionNs.firstSome([None, Some(2), Some(3)]), Some(2));
+  assertEquals(OptionNs.firstSome({ cache: None, db: Some("row") }), Some("row"));
+  assertEquals(OptionNs.firstSome([]), None);
+});
+
+Deno.test("Option.equals compares values with Object.is or a custom eq", () => {
+  assertEquals(OptionNs.equals(Some(1), Some(1)), true);
+  assertEquals(OptionNs.equals(Some(1), None), false);
+  assertEquals(OptionNs.equals(None, None), true);
+  assertEquals(OptionNs.equals(Some({ id: 1 }), Some({ id: 1 })), false);
+  assertEquals(OptionNs.equals(Some({ id: 1 }), Some({ id: 1 }), (a, b) => a.id === b.id), true);
+});
+
+Deno.test("Option.fromFect keeps values, drops errors and rethrows defects", async () => {
+  assertEquals(OptionNs.fromFect(Fect.ok(1)), Some(1));
+  assertEquals(OptionNs.fromFect(Fect.err("missing")), None);
+  assertEquals(OptionNs.fromFect(OptionNs.toFect(None as Option<number>)), None);
+  assertEquals(await OptionNs.fromFect(fn((n: number) => Promise.resolve(n + 1))(1)), Some(2));
+
+  const broken = fn((_: number): number => {
+    throw new Error("bug");
+  });
+  await assertRejects(() => OptionNs.fromFect(broken(Promise.resolve(1))), Error, "bug");
+});
+
+if (false) {
+  const digit = OptionNs.toFect(Some(1));
+  // @ts-expect-error option-infected carriers need a none branch
+  match(digit).with({ ok: (n) => n });
+  const plain = fn((n: number) => n)(1);
+  // @ts-expect-error none is only offered for option-infected carriers
+  match(Fect.ok(plain)).with({ ok: (n) => n, none: () => 0 });
+  const half = fn((n: number) => n / 2, { option: true });
+  const halved = half(Some(2));
+  const both = fn((a: number, b: number) => a + b, { option: true })(1, None);
+  const halvedFx: { option: true } = halved.fx;
+  const bothFx: { option: true } = both.fx;
+  const unwrapped: number | undefined = Fect.try(halved);
+  const settled: Result<Option<number>, never> = Result.fromFect(halved);
+  // @ts-expect-error Option inputs need { option: true }
+  fn((n: number) => n / 2)(Some(2));
+  // @ts-expect-error a None may reach Fect.try
+  const certain: number = Fect.try(halved);
+  const pair: Option<[number, string]> = OptionNs.all([Some(1), Some("a")]);
+  const record: Option<{ id: number }> = OptionNs.all({ id: Some(1) });
+  const synced: Option<number> = OptionNs.fromFect(Fect.ok(1));
+  const awaited: Promise<Option<number>> = OptionNs.fromFect(fn(() => Promise.resolve(1))());
+  const positive: Option<string> = OptionNs.filter(Some<string | number>("a"), (v): v is string => typeof v === "string");
+  void [halvedFx, bothFx, unwrapped, settled, certain, pair, record, synced, awaited, positive];
+}
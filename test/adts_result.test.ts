@@ -0,0 +1,65 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { Fect, FectError, fn, match, None, Result, Some } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+
+Deno.test("Result constructors, guards and plain match", () => {
+  const found: Result<number, string> = Result.Ok(1);
+  const missing: Result<number, string> = Result.Err("missing");
+
+  assertEquals([Result.isOk(found), Result.isErr(missing)], [true, true]);
+  const describe = (result: Result<number, string>) =>
+    match(result).with({
+      Ok: (value) => `ok ${value}`,
+      Err: (e) => `err ${e.error}`,
+    });
+  assertEquals([describe(found), describe(missing)], ["ok 1", "err missing"]);
+});
+
+Deno.test("Result combinators", () => {
+  const ok = Result.Ok(2) as Result<number, string>;
+  const err = Result.Err("bad") as Result<number, string>;
+
+  assertEquals(Result.map(ok, (n) => n * 2), Result.Ok(4));
+  assertEquals(Result.map(err, (n) => n * 2), err);
+  assertEquals(Result.mapErr(err, (e) => e.length), Result.Err(3));
+  assertEquals(Result.flatMap(ok, (n) => n > 1 ? Result.Err("too big") : Result.Ok(n)), Result.Err("too big"));
+  assertEquals(Result.orElse(err, () => Result.Ok(0)), Result.Ok(0));
+  assertEquals(Result.getOrElse(err, (e) => e.length), 3);
+  assertEquals(Result.match(ok, { Ok: (n) => n, Err: () => -1 }), 2);
+  assertEquals([Result.toOption(ok), Result.toOption(err)], [Some(2), None]);
+  assertEquals(Result.fromOption(None, () => "none"), Result.Err("none"));
+});
+
+Deno.test("a Result passes through fn without infecting it", () => {
+  const store = fn((result: Result<number, string>) => ({ saved: result }));
+  const out = store(Result.Err("later"));
+  assertEquals(out, { saved: Result.Err("later") });
+  assertEquals(JSON.parse(JSON.stringify(out)), { saved: { _tag: "Err", error: "later" } });
+});
+
+Deno.test("Result.fromFect and toFect convert to and from carriers", async () => {
+  const load = fn((id: string) => id === "1" ? { id } : NotFound.err({ id }));
+  assertEquals(Result.fromFect(load("1")), Result.Ok({ id: "1" }));
+  const missing = Result.fromFect(load("2"));
+  assertEquals(Result.isErr(missing) && missing.error.id, "2");
+  assertEquals(await Result.fromFect(fn((n: number) => Promise.resolve(n))(1)), Result.Ok(1));
+
+  const broken = fn((_: number): number => {
+    throw new Error("bug");
+  });
+  await assertRejects(() => Result.fromFect(broken(Promise.resolve(1))), Error, "bug");
+
+  const back = Result.toFect(missing);
+  assertEquals(match(back).with({ ok: () => "ok", err: { NotFound: (e) => `missing ${e.id}` } }), "missing 2");
+  assertEquals(Fect.try(Result.toFect(Result.Ok(5))), 5);
+});
+
+if (false) {
+  const load = fn((id: string) => id === "1" ? { id } : NotFound.err({ id }));
+  const sync: Result<{ id: string }, NotFound> = Result.fromFect(load("1"));
+  const awaited: Promise<Result<number, never>> = Result.fromFect(fn(() => Promise.resolve(1))());
+  // @ts-expect-error async carriers settle into a promise of a Result
+  const notSync: Result<number, never> = Result.fromFect(fn(() => Promise.resolve(1))());
+  void [sync, awaited, notSync];
+}
@@ -0,0 +1,181 @@
+import { assertEquals } from "jsr:@std/assert";
+import { err, Fect, FectError, fn, match, ok } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+class Forbidden extends FectError("Forbidden")() {}
+
+const loadUser = fn((id: string) => {
+  if (id === "missing") return NotFound.err({ id });
+  return { id, name: "Ada" };
+});
+
+const loadRepos = fn(async (id: string) => {
+  if (id === "blocked") return Forbidden.err();
+  return [`${id}/fect`];
+});
+
+Deno.test("Fect.all joins a sync tuple of mixed inputs", () => {
+  const out = Fect.all([ok(1), 2, Fect.lazy(() => ok("three"))]);
+
+  const value = match(out).with({
+    ok: (v) => v,
+  });
+  assertEquals(value, [1, 2, "three"]);
+});
+
+Deno.test("Fect.all joins a record and goes async when any input is async", async () => {
+  const out = Fect.all({
+    user: loadUser(ok("42")),
+    repos: loadRepos("42"),
+    extra: Promise.resolve(true),
+  });
+
+  const value = await match(out).with({
+    ok: (v) => `${v.user.name}:${v.repos.join(",")}:${v.extra}`,
+    err: {
+      NotFound: (e) => `missing ${e.id}`,
+      Forbidden: () => "forbidden",
+    },
+  });
+  assertEquals(value, "Ada:42/fect:true");
+});
+
+Deno.test("Fect.all short-circuits on the first error in input order", async () => {
+  const out = Fect.all([loadRepos("blocked"), loadUser(ok("missing"))]);
+
+  const value = await match(out).with({
+    ok: () => "ok",
+    err: (e) => e._tag,
+  });
+  assertEquals(value, "Forbidden");
+});
+
+Deno.test("Fect.all maps rejected promise inputs to PromiseRejected", async () => {
+  const out = Fect.all([1, Promise.reject(new Error("boom"))]);
+
+  const value = await match(out).with({
+    ok: () => "ok",
+    defect: (e) => (e.cause as Error).message,
+  });
+  assertEquals(value, "boom");
+});
+
+Deno.test("Fect.all output composes with fn", () => {
+  const add = fn(([a, b]: [number, number]) => a + b);
+  const out = add(Fect.all([ok(1), ok(2)]));
+
+  assertEquals(Fect.try(out), 3);
+});
+
+Deno.test("Fect.allSettled keeps every payload without short-circuiting", async () => {
+  const out = Fect.allSettled({
+    user: loadUser(ok("missing")),
+    repos: loadRepos("42"),
+    plain: 7,
+  });
+
+  const value = await Fect.try(out);
+  assertEquals(value.user.tag, "err");
+  assertEquals(value.repos, { tag: "ok", value: ["42/fect"] });
+  assertEquals(value.plain, { tag: "ok", value: 7 });
+});
+
+Deno.test("Fect.allSettled on sync inputs stays sync", () => {
+  const out = Fect.allSettled([ok(1), err("boom")]);
+
+  const value = Fect.try(out);
+  assertEquals(value, [
+    { tag: "ok", value: 1 },
+    { tag: "err", error: "boom" },
+  ]);
+});
+
+class EmailInvalid extends FectError("EmailInvalid")<{ email: string }>() {}
+class PasswordTooShort extends FectError("PasswordTooShort")<{ min: number }>() {}
+
+const checkEmail = fn((email: string) => {
+  if (!email.includes("@")) return EmailInvalid.err({ email });
+  return email;
+});
+
+const checkPassword = fn(async (password: string) => {
+  if (password.length < 8) return PasswordTooShort.err({ min: 8 });
+  return password;
+});
+
+Deno.test("Fect.validate collects every input error", async () => {
+  const out = Fect.validate(checkEmail(ok("ada")), checkPassword("short"));
+
+  const value = await match(out).with({
+    ok: () => [] as string[],
+    err: {
+      Accumulated: (e) => e.errors.map((problem) => problem._tag),
+    },
+  });
+  assertEquals(value, ["EmailInvalid", "PasswordTooShort"]);
+});
+
+Deno.test("Fect.validate fails with the first defect instead of accumulating it", async () => {
+  const crash = fn(async (_n: number) => {
+    throw new Error("crashed");
+  });
+  const out = Fect.validate(checkEmail(ok("ada")), crash(1));
+
+  const value = await match(out).with({
+    ok: () => "ok",
+    err: { Accumulated: () => "accumulated" },
+    defect: (e) => (e.cause as Error).message,
+  });
+  assertEquals(value, "crashed");
+});
+
+Deno.test("Fect.validate joins values when every input is ok", async () => {
+  const out = Fect.validate(checkEmail(ok("ada@example.com")), checkPassword("long enough"), 3);
+
+  assertEquals(await Fect.try(out), ["ada@example.com", "long enough", 3]);
+});
+
+Deno.test("Fect.validate stays sync for sync inputs", () => {
+  const out = Fect.validate(err("a"), ok(1), err("b"));
+
+  const value = match(out).with({
+    ok: () => [] as string[],
+    err: {
+      Accumulated: (e) => e.errors,
+    },
+  });
+  assertEquals(value, ["a", "b"]);
+});
+
+if (false) {
+  const joined = Fect.all([loadUser(ok("1")), loadRepos("1")]);
+
+  match(joined).with({
+    ok: ([user, repos]) => `${user.name}${repos.length}`,
+    // @ts-expect-error Forbidden branch must be required
+    err: {
+      NotFound: () => "",
+    },
+  });
+
+  const settled = Fect.allSettled([loadUser(ok("1"))]);
+
+  // Settled joins carry no error channel, so only `ok` is required.
+  match(settled).with({
+    ok: ([user]) => user.tag === "err" ? user.error.id : user.value.name,
+  });
+
+  const form = Fect.validate(checkEmail(ok("")), checkPassword(""));
+
+  match(form).with({
+    ok: ([email, password]) => email.length + password.length,
+    err: {
+      Accumulated: (e) =>
+        e.errors.map((problem) => {
+          // @ts-expect-error NotFound is not one of the input errors
+          if (problem._tag === "NotFound") return 0;
+          return problem._tag === "EmailInvalid" ? problem.email.length : problem._tag.length;
+        }).length,
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+class EmailInvalid extends FectError("EmailInvalid")() {}
+
+const loadUser = fn((id: string) => {
+  if (id !== "42") return NotFound.err({ id });
+  return { id, name: "Ada" };
+});
+
+const render = fn((user: { name: string }) => `<h1>${user.name}</h1>`, { annotate: "rendering page" });
+
+Deno.test("annotate keeps the tag and exposes context to match handlers", () => {
+  const profile = Fect.annotate(loadUser(Fect.ok("7")), "loading user profile");
+
+  const value = match(render(profile)).with({
+    ok: (html) => html,
+    err: {
+      NotFound: (e, cause) => `${e.id}\n${Fect.prettyCause(cause)}`,
+    },
+  });
+  assertEquals(
+    value,
+    [
+      "7",
+      "rendering page",
+      "└─ loading user profile",
+      '   └─ NotFound {"id":"7"}',
+    ].join("\n"),
+  );
+});
+
+Deno.test("successful carriers have no cause", () => {
+  const page = render(Fect.annotate(loadUser(Fect.ok("42")), "loading user profile"));
+  assertEquals(Fect.try(page), "<h1>Ada</h1>");
+  assertEquals(Fect.causeOf(page), undefined);
+});
+
+Deno.test("causeOf reads the cause of async carriers", async () => {
+  const boom = fn(async (_id: string) => {
+    throw new Error("db down");
+  }, { annotate: "querying users" });
+
+  const cause = await Fect.causeOf(boom(Fect.ok("1")));
+  assertEquals(Fect.prettyCause(cause!), "querying users\n└─ PromiseRejected: db down");
+});
+
+Deno.test("prettyCause renders errors JSON cannot encode", () => {
+  class TooBig extends FectError("TooBig")<{ size: bigint }>() {}
+  const loop: { self?: unknown } = {};
+  loop.self = loop;
+
+  assertEquals(Fect.prettyCause(Fect.causeOf(Fect.err(TooBig.of({ size: 1n })))!), "TooBig [object Object]");
+  assertEquals(Fect.prettyCause(Fect.causeOf(Fect.err(loop))!), "[object Object]");
+});
+
+Deno.test("validate collects the cause of every failed input", () => {
+  const email = Fect.annotate(Fect.err(EmailInvalid.of()), "checking email");
+  const form = Fect.validate(email, Fect.err(NotFound.of({ id: "1" })));
+
+  assertEquals(
+    Fect.prettyCause(Fect.causeOf(form)!),
+    [
+      "2 errors",
+      "├─ checking email",
+      "│  └─ EmailInvalid",
+      '└─ NotFound {"id":"1"}',
+    ].join("\n"),
+  );
+});
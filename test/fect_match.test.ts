@@ -32,8 +32,6 @@ Deno.test("match works with async infected carrier", async () => {
   const message = await match(out).with({
     ok: (value) => `ok:${value}`,
     err: {
-      PromiseRejected: () => "promise-rejected",
-      UnknownException: () => "unknown-exception",
       NotFound: (e) => `missing:${e.resource}`,
     },
   });
@@ -135,16 +133,46 @@ Deno.test("partial works with async carriers and downstream sync composition", a
 
   const message = await match(out).with({
     ok: (value) => `ok:${value}`,
-    err: {
-      PromiseRejected: () => "promise-rejected",
-      UnknownException: () => "unknown-exception",
-    },
   });
 
   assertEquals(message, "ok:GUEST");
 });
 
 // ===== Type-level exhaustiveness checks =====
+// ===== Defects =====
+
+Deno.test("match hands defects to the defect handler, not err", async () => {
+  const step = fn(async (id: string) => {
+    if (id === "") return NotFound.err({ resource: "user" });
+    throw new Error("db down");
+  });
+
+  const value = await match(step("7")).with({
+    ok: () => "ok",
+    err: { NotFound: (e) => `missing:${e.resource}` },
+    defect: (e) => `${e._tag}:${(e.cause as Error).message}`,
+  });
+  assertEquals(value, "PromiseRejected:db down");
+});
+
+Deno.test("match and Fect.try rethrow the original exception of an unhandled defect", async () => {
+  const boom = new Error("boom");
+  const step = fn((_n: number) => {
+    throw boom;
+  });
+
+  let thrown: unknown;
+  try {
+    match(step(1)).with({ ok: (v) => v });
+  } catch (cause) {
+    thrown = cause;
+  }
+  assertEquals(thrown, boom);
+
+  const rejected = await Fect.try(step(Promise.resolve(1))).then(() => undefined, (cause) => cause);
+  assertEquals(rejected, boom);
+});
+
 if (false) {
   class A extends FectError("A")<{ value: number }>() {}
   class B extends FectError("B")<{ message: string }>() {}
@@ -205,4 +233,12 @@ if (false) {
       A: (e: { _tag: "A"; value: number }) => e.value,
     },
   });
+
+  const crashing = fn(async (_n: number) => 1);
+
+  match(crashing(1)).with({
+    ok: (v) => v,
+    // @ts-expect-error defects are not part of the err channel
+    err: { UnknownException: () => 0 },
+  });
 }
@@ -78,10 +78,6 @@ Deno.test("fn supports 12-arg infected typing and composition", async () => {
 
   const value = await match(out).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => -1,
-      UnknownException: () => -1,
-    },
   });
 
   assertEquals(value, 78);
@@ -246,10 +242,6 @@ Deno.test("fn propagates promise input as async carrier", async () => {
 
   const msg = await match(result).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => false,
-      UnknownException: () => false,
-    },
   });
   assertEquals(msg, true);
 });
@@ -262,10 +254,6 @@ Deno.test("fn flattens async body return", async () => {
   const result = check({ n: 41 });
   const value = await match(result).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => -1,
-      UnknownException: () => -1,
-    },
   });
   assertEquals(value, 42);
 });
@@ -277,10 +265,6 @@ Deno.test("fn chains async input with async handler", async () => {
   const result = step2(step1(Promise.resolve(5)));
   const value = await match(result).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => -1,
-      UnknownException: () => -1,
-    },
   });
   assertEquals(value, 20);
 });
@@ -293,10 +277,6 @@ Deno.test("sync steps compose over async carriers without manual await", async (
   const out = decorate(upper(loadUser(7)));
   const value = await match(out).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => "promise-rejected",
-      UnknownException: () => "unknown-exception",
-    },
   });
 
   assertEquals(value, "[USER-7]");
@@ -312,8 +292,6 @@ Deno.test("fn short-circuits async error through pipeline", async () => {
   const value = await match(result).with({
     ok: (v) => `ok:${v}`,
     err: {
-      PromiseRejected: () => "promise-rejected",
-      UnknownException: () => "unknown-exception",
       Boom: () => "boom",
     },
   });
@@ -328,11 +306,7 @@ Deno.test("fn maps async rejection to PromiseRejected by default", async () => {
   const out = step(1);
   const value = await match(out).with({
     ok: () => "ok",
-    err: {
-      PromiseRejected: (e) =>
-        e.cause instanceof Error ? e.cause.message : "unknown",
-      UnknownException: () => "unknown",
-    },
+    defect: (e) => e.cause instanceof Error ? e.cause.message : "unknown",
   });
   assertEquals(value, "boom");
 });
@@ -353,9 +327,7 @@ Deno.test("fn supports custom mapDefect for async rejection", async () => {
   const out = step(1);
   const value = await match(out).with({
     ok: () => "ok",
-    err: {
-      UnknownException: (e) => String(e.cause),
-    },
+    defect: (e) => String(e.cause),
   });
   assertEquals(value, "boom");
 });
@@ -366,11 +338,7 @@ Deno.test("fn maps rejected promise input to defect channel", async () => {
   const out = step(Promise.reject(new Error("input failed")));
   const value = await match(out).with({
     ok: () => "ok",
-    err: {
-      PromiseRejected: (e) =>
-        e.cause instanceof Error ? e.cause.message : "unknown",
-      UnknownException: () => "unknown",
-    },
+    defect: (e) => e.cause instanceof Error ? e.cause.message : "unknown",
   });
 
   assertEquals(value, "input failed");
@@ -384,11 +352,7 @@ Deno.test("fn maps thrown exception in infected flow to UnknownException", async
   const out = step(Promise.resolve(1));
   const value = await match(out).with({
     ok: () => "ok",
-    err: {
-      PromiseRejected: () => "promise-rejected",
-      UnknownException: (e) =>
-        e.cause instanceof Error ? e.cause.message : "unknown",
-    },
+    defect: (e) => e.cause instanceof Error ? e.cause.message : "unknown",
   });
 
   assertEquals(value, "thrown");
@@ -0,0 +1,105 @@
+import { assertEquals } from "jsr:@std/assert";
+import { err, Fect, FectError, fn, makeCore, match, ok } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+class Forbidden extends FectError("Forbidden")() {}
+
+const loadUser = fn((id: string) => {
+  if (id === "missing") return NotFound.err({ id });
+  if (id === "blocked") return Forbidden.err();
+  return { id };
+});
+
+Deno.test("fxOf lists the error tags a sync carrier produced", () => {
+  assertEquals(Fect.fxOf(err(NotFound.of({ id: "7" }))).errors, ["NotFound"]);
+  assertEquals(Fect.fxOf(ok(1)), {
+    async: false,
+    lazy: false,
+    stream: false,
+    option: false,
+    errors: [],
+    defects: [],
+    requires: [],
+    effects: [],
+  });
+
+  const greet = fn((user: { id: string }) => `hi ${user.id}`);
+  assertEquals(Fect.fxOf(greet(loadUser(ok("missing")))).errors, ["NotFound"]);
+  assertEquals(Fect.inspect(greet(loadUser(ok("blocked")))), "Fect.err(Forbidden) { result: Forbidden }");
+  assertEquals(Fect.inspect(greet(loadUser(ok("7")))), 'Fect.ok("hi 7") {}');
+});
+
+Deno.test("async carriers record their error once settled", async () => {
+  const load = fn(async (id: string) => id === "missing" ? NotFound.err({ id }) : { id });
+  const user = load("missing");
+
+  assertEquals(Fect.fxOf(user).async, true);
+  assertEquals(Fect.fxOf(user).errors, []);
+  assertEquals(Fect.inspect(user), "Fect.pending { async }");
+
+  await match(user).with({ ok: () => "", err: { NotFound: () => "" } });
+  assertEquals(Fect.fxOf(user).errors, ["NotFound"]);
+  assertEquals(Fect.inspect(user), "Fect.err(NotFound) { async; result: NotFound }");
+});
+
+Deno.test("a sync handler returning an async carrier settles like one", async () => {
+  const load = fn(async (id: string) => id === "missing" ? NotFound.err({ id }) : { id });
+  const viaLoad = fn((id: string) => load(id));
+  const user = viaLoad(ok("missing"));
+
+  assertEquals(Fect.fxOf(user).errors, []);
+  assertEquals(Fect.inspect(user), "Fect.pending { async }");
+
+  await match(user).with({ ok: () => "", err: { NotFound: () => "" } });
+  assertEquals(Fect.fxOf(user).errors, ["NotFound"]);
+  assertEquals(Fect.inspect(user), "Fect.err(NotFound) { async; result: NotFound }");
+});
+
+Deno.test("defects are recorded apart from domain errors", async () => {
+  const crash = fn(async (_n: number) => {
+    throw new Error("boom");
+  });
+  const out = crash(1);
+  await match(out).with({ ok: () => "", defect: () => "" });
+
+  assertEquals(Fect.fxOf(out).errors, []);
+  assertEquals(Fect.fxOf(out).defects, ["PromiseRejected"]);
+  assertEquals(Fect.inspect(out), "Fect.defect(PromiseRejected) { async; defect: PromiseRejected }");
+});
+
+Deno.test("partial drops the tags it handled", () => {
+  const recovered = Fect.partial(loadUser(ok("missing"))).with({
+    err: { NotFound: () => ({ id: "guest" }) },
+  });
+  assertEquals(Fect.fxOf(recovered).errors, []);
+});
+
+Deno.test("fxOf reports required services, lazy wrappers and custom effects", () => {
+  const Db = Fect.service<{ name: string }>("Db");
+  const name = fn((db: { name: string }) => db.name)(Db);
+  assertEquals(Fect.fxOf(name).requires, ["Db"]);
+  assertEquals(Fect.inspect(name), "Fect.deferred { requires: Db }");
+
+  assertEquals(Fect.fxOf(Fect.lazy(() => ok(1))).lazy, true);
+
+  const audited = makeCore({ tag: "ok", value: 1 }, { audit: true });
+  const doubled = fn((n: number) => n * 2)(audited);
+  assertEquals(Fect.fxOf(doubled).effects, ["audit"]);
+  assertEquals(Fect.inspect(doubled), "Fect.ok(2) { audit }");
+});
+
+Deno.test("a stream carrier is lazy until it is consumed", async () => {
+  const doubled = fn((n: number) => n * 2)(Fect.stream([1, 2]));
+  assertEquals([Fect.fxOf(doubled).stream, Fect.fxOf(doubled).lazy], [true, true]);
+  assertEquals(Fect.inspect(doubled), "Fect.pending { async; lazy; stream }");
+
+  assertEquals(await Fect.try(doubled), [2, 4]);
+  assertEquals(Fect.fxOf(doubled).lazy, false);
+  assertEquals(Fect.inspect(doubled), "Fect.ok([2,4]) { async; stream }");
+});
+
+Deno.test("an option carrier reports the option infection", () => {
+  const double = fn((n: number) => n * 2);
+  assertEquals(Fect.fxOf(double(Fect.Option.toFect(Fect.Option.Some(2)))).option, true);
+  assertEquals(Fect.inspect(double(Fect.Option.toFect(Fect.Option.Some(2)))), "Fect.ok(4) { option }");
+});
@@ -0,0 +1,195 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match, ok } from "../mod.ts";
+
+class Boom extends FectError("Boom")() {}
+class Late extends FectError("Late")() {}
+
+Deno.test("abortable settles pending work with Interrupted once aborted", async () => {
+  const controller = new AbortController();
+  const slow = fn((n: number) => new Promise<number>((resolve) => setTimeout(() => resolve(n), 50)));
+  const double = fn((n: number) => n * 2);
+
+  const out = double(slow(Fect.abortable(21, controller.signal)));
+  controller.abort("client disconnected");
+
+  const value = await match(out).with({
+    ok: (v) => `ok ${v}`,
+    err: {
+      Interrupted: (e) => `interrupted: ${e.reason}`,
+    },
+  });
+  assertEquals(value, "interrupted: client disconnected");
+  await new Promise((resolve) => setTimeout(resolve, 60));
+});
+
+Deno.test("handlers downstream of an aborted signal do not run", () => {
+  const controller = new AbortController();
+  const calls: string[] = [];
+  const step = fn((n: number) => {
+    calls.push("step");
+    return n + 1;
+  });
+
+  const first = step(Fect.abortable(1, controller.signal));
+  controller.abort();
+  const second = step(first);
+
+  assertEquals(calls, ["step"]);
+  const value = match(second).with({
+    ok: () => "ok",
+    err: {
+      Interrupted: () => "interrupted",
+    },
+  });
+  assertEquals(value, "interrupted");
+});
+
+Deno.test("signal flows through the chain and is exposed to handlers", async () => {
+  const controller = new AbortController();
+  const seen: Array<AbortSignal | undefined> = [];
+  const observe = fn(async (n: number) => {
+    seen.push(Fect.signal());
+    await Promise.resolve();
+    return n;
+  });
+  const add = fn((a: number, b: number) => a + b);
+
+  const out = add(observe(Fect.abortable(1, controller.signal)), ok(2));
+
+  assertEquals(await Fect.try(out), 3);
+  assertEquals(Fect.signalOf(out), controller.signal);
+  assertEquals(Fect.signal(), undefined);
+
+  // The handler's signal also fires when consumers cancel the call, and
+  // follows the attached signal otherwise.
+  assertEquals(seen.length, 1);
+  assertEquals(seen[0]?.aborted, false);
+  controller.abort("stop");
+  assertEquals(seen[0]?.aborted, true);
+  assertEquals(seen[0]?.reason, "stop");
+});
+
+Deno.test("partial keeps the input's signal for downstream calls", () => {
+  const controller = new AbortController();
+  const calls: string[] = [];
+  const step = fn((n: number) => {
+    calls.push("step");
+    return n > 0 ? n : Boom.err();
+  });
+
+  const handled = Fect.partial(step(Fect.abortable(1, controller.signal))).with({ err: { Boom: () => 0 } });
+  assertEquals(Fect.signalOf(handled), controller.signal);
+  controller.abort();
+  const value = match(step(handled)).with({
+    ok: () => "ok",
+    err: { Boom: () => "boom", Interrupted: () => "interrupted" },
+  });
+  assertEquals([value, calls], ["interrupted", ["step"]]);
+});
+
+Deno.test("abortable on an already aborted signal is interrupted immediately", () => {
+  const controller = new AbortController();
+  controller.abort("gone");
+
+  const out = Fect.abortable(ok(1), controller.signal);
+  const value = match(out).with({
+    ok: () => "ok",
+    err: {
+      Interrupted: (e) => String(e.reason),
+    },
+  });
+  assertEquals(value, "gone");
+});
+
+// ===== Fail-fast inputs =====
+
+/** An fn that resolves `n` after `ms`, or rejects early once its signal aborts. */
+function delayed(ms: number, aborted: unknown[]) {
+  return fn((n: number) => {
+    const signal = Fect.signal();
+    return new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(n), ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        aborted.push(signal.reason);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  });
+}
+
+const add = fn((a: number, b: number) => a + b);
+
+Deno.test("a failing async input settles the call without waiting for slow siblings", async () => {
+  const aborted: unknown[] = [];
+  const slow = delayed(10_000, aborted);
+  const failing = fn(async (_n: number) => Boom.err());
+
+  const value = await match(add(slow(1), failing(2))).with({
+    ok: () => "ok",
+    err: { Boom: () => "boom" },
+  });
+  assertEquals(value, "boom");
+  assertEquals(aborted.length, 1);
+  assertEquals(aborted[0] instanceof Boom, true);
+});
+
+Deno.test("failFast: false waits for every input and reports the first error in order", async () => {
+  const late = fn(async (_n: number) => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return Late.err();
+  });
+  const failing = fn(async (_n: number) => Boom.err());
+  const addAll = fn((a: number, b: number) => a + b, { failFast: false });
+
+  const handlers = { ok: () => "ok", err: { Late: () => "Late", Boom: () => "Boom" } };
+  assertEquals(await match(addAll(late(1), failing(2))).with(handlers), "Late");
+  assertEquals(await match(add(late(1), failing(2))).with(handlers), "Boom");
+});
+
+Deno.test("an input another call still waits on is not cancelled", async () => {
+  const aborted: unknown[] = [];
+  const shared = delayed(10, aborted)(1);
+  const failing = fn(async (_n: number) => Boom.err());
+
+  const failed = add(shared, failing(2));
+  const summed = add(shared, ok(3));
+
+  assertEquals(await match(failed).with({ ok: () => "ok", err: { Boom: () => "boom" } }), "boom");
+  assertEquals(await Fect.try(summed), 4);
+  assertEquals(aborted, []);
+});
+
+Deno.test("an input cancelled by a failed call runs again for the next call", async () => {
+  const aborted: unknown[] = [];
+  const shared = delayed(10, aborted)(1);
+  const failing = fn((_n: number) => Promise.resolve(Boom.err()));
+
+  assertEquals(await match(add(shared, failing(2))).with({ ok: () => "ok", err: { Boom: () => "boom" } }), "boom");
+  assertEquals(aborted.length, 1);
+  assertEquals(await Fect.try(add(shared, ok(3))), 4);
+  assertEquals(await Fect.try(shared), 1);
+});
+
+Deno.test("an input someone else awaits is not cancelled by a failed call", async () => {
+  const aborted: unknown[] = [];
+  const shared = delayed(10, aborted)(1);
+  const failing = fn((_n: number) => Promise.resolve(Boom.err()));
+
+  const direct = Fect.try(shared);
+  assertEquals(await match(add(shared, failing(2))).with({ ok: () => "ok", err: { Boom: () => "boom" } }), "boom");
+  assertEquals(await direct, 1);
+  assertEquals(aborted, []);
+});
+
+if (false) {
+  const controller = new AbortController();
+  const step = fn((n: number) => n + 1);
+  const out = step(Fect.abortable(1, controller.signal));
+
+  match(out).with({
+    ok: (v) => v,
+    // @ts-expect-error Interrupted branch must be required
+    err: {},
+  });
+}
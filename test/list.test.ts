@@ -1,5 +1,5 @@
 import { assertEquals } from "jsr:@std/assert";
-import { List, match } from "../mod.ts";
+import { err, fail, Fect, FectError, lazy, List, match, ok } from "../mod.ts";
 
 Deno.test("List.at returns ok for valid index", () => {
   const out = List.at([10, 20, 30], 1);
@@ -31,3 +31,71 @@ Deno.test("List.atOption and helpers", () => {
   assertEquals(List.atOption(["a"], 1), { _tag: "None" });
 });
 
+class TooBig extends FectError("TooBig")<{ n: number }>() {}
+
+Deno.test("List.map stays sync for sync element functions", () => {
+  const out = List.map([1, 2, 3], (n, i) => n * 10 + i);
+  assertEquals(Fect.try(out), [10, 21, 32]);
+  assertEquals(List.map([1, 2], (n) => ok(n + 1)).payload, { tag: "ok", value: [2, 3] });
+});
+
+Deno.test("List.map short-circuits on the first error", () => {
+  const seen: number[] = [];
+  const out = List.map([1, 5, 2, 9], (n) => {
+    seen.push(n);
+    return n > 4 ? fail(new TooBig({ n })) : n;
+  });
+  const value = match(out).with({ ok: (ns) => ns.join(), err: { TooBig: (e) => `too big ${e.n}` } });
+  assertEquals([value, seen], ["too big 5", [1, 5]]);
+});
+
+Deno.test("List.map goes async once an element returns a promise, one call at a time", async () => {
+  const log: string[] = [];
+  const out = List.map([1, 2, 3], async (n) => {
+    log.push(`start ${n}`);
+    await Promise.resolve();
+    log.push(`end ${n}`);
+    return n * 2;
+  });
+  assertEquals(await Fect.try(out), [2, 4, 6]);
+  assertEquals(log, ["start 1", "end 1", "start 2", "end 2", "start 3", "end 3"]);
+
+  const rejected = List.map([1], (n) => Promise.reject(new Error(`lost ${n}`)));
+  assertEquals(await match(rejected).with({ ok: () => "ok", defect: (d) => (d.cause as Error).message }), "lost 1");
+});
+
+Deno.test("List.filter, reduce, flatMap and find", async () => {
+  assertEquals(Fect.try(List.filter([1, 2, 3, 4], (n) => n % 2 === 0)), [2, 4]);
+  assertEquals(await Fect.try(List.filter(["a", "bb"], (s) => Promise.resolve(s.length > 1))), ["bb"]);
+  assertEquals(await Fect.try(List.reduce([1, 2, 3], (sum, n) => Promise.resolve(sum + n), 10)), 16);
+  assertEquals(Fect.try(List.flatMap([1, 2], (n) => [n, n])), [1, 1, 2, 2]);
+
+  const visited: number[] = [];
+  const found = List.find([1, 2, 3], (n) => (visited.push(n), n >= 2));
+  assertEquals([Fect.try(found), visited], [{ _tag: "Some", value: 2 }, [1, 2]]);
+  assertEquals(Fect.try(List.find([1], () => false)), { _tag: "None" });
+});
+
+Deno.test("List.sequence forces lazies in order and stops at the first error", async () => {
+  let forced = false;
+  const later = lazy(() => {
+    forced = true;
+    return ok(3);
+  });
+  const out = List.sequence([ok(1), Promise.resolve(2), err(new TooBig({ n: 9 })), later]);
+  const value = await match(out).with({ ok: () => "ok", err: { TooBig: (e) => `too big ${e.n}` } });
+  assertEquals([value, forced], ["too big 9", false]);
+
+  assertEquals(await Fect.try(List.traverse(["a", "b"], (s) => Promise.resolve(s.toUpperCase()))), ["A", "B"]);
+});
+
+if (false) {
+  const sync: number[] = Fect.try(List.map([1], (n) => n + 1));
+  const failing = List.map([1], (n) => n > 0 ? fail(new TooBig({ n })) : n);
+  match(failing).with({ ok: (ns: number[]) => ns, err: { TooBig: () => [] } });
+  const asyncOut: Promise<string[]> = Fect.try(List.map([1], (n) => Promise.resolve(`${n}`)));
+  const evens: Promise<number[]> = Fect.try(List.filter([1], (n) => Promise.resolve(n > 0)));
+  // @ts-expect-error the element function's async infection reaches the result
+  const notSync: string[] = Fect.try(List.map([1], (n) => Promise.resolve(`${n}`)));
+  void [sync, asyncOut, evens, notSync];
+}
@@ -0,0 +1,83 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { Fect, FectError, fn, match, type RemoteTimeout } from "../mod.ts";
+
+class Busy extends FectError("Busy")<{ retryInMs: number }>() {}
+
+Fect.registerErrors(Busy);
+
+function pair(options: { timeoutMs?: number } = {}) {
+  const { port1, port2 } = new MessageChannel();
+  const local = Fect.remoteBridge(port1, options);
+  const remote = Fect.remoteBridge(port2);
+  return {
+    local,
+    remote,
+    port2,
+    [Symbol.dispose]() {
+      local.close();
+      remote.close();
+      port1.close();
+      port2.close();
+    },
+  };
+}
+
+Deno.test("remoteBridge fills a value from the other side of a port", async () => {
+  using ports = pair();
+  const reply = ports.local.value<number>();
+  assertEquals(ports.local.size, 1);
+
+  ports.remote.fill(reply.id, 21);
+  const double = fn((n: number) => n * 2);
+  assertEquals(await Fect.try(double(reply)), 42);
+  assertEquals(ports.local.size, 0);
+});
+
+Deno.test("remoteBridge fails with registered tagged errors as instances", async () => {
+  using ports = pair();
+  const reply = ports.local.value<number>();
+  ports.remote.fail(reply.id, Busy.of({ retryInMs: 50 }));
+
+  const reason = await reply.then(() => undefined, (e) => e);
+  assertEquals(reason instanceof Busy, true);
+  assertEquals((reason as Busy).retryInMs, 50);
+
+  const crashed = ports.local.value<number>();
+  ports.remote.fail(crashed.id, new TypeError("gone"));
+  const message = await match(fn((n: number) => n)(crashed)).with({
+    ok: () => "",
+    err: { RemoteTimeout: () => "timeout", RemoteCancelled: () => "cancelled" },
+    defect: (e) => `${e._tag} ${(e.cause as Error).name} ${(e.cause as Error).message}`,
+  });
+  assertEquals(message, "PromiseRejected TypeError gone");
+});
+
+Deno.test("remoteBridge values time out with the bridge default", async () => {
+  using ports = pair({ timeoutMs: 5 });
+  const reason = await ports.local.value<number>().wait().then(() => undefined, (e) => e);
+  assertEquals(reason instanceof Fect.RemoteTimeout, true);
+  assertEquals((reason as RemoteTimeout).timeoutMs, 5);
+  assertEquals(ports.local.size, 0);
+});
+
+Deno.test("remoteBridge close fails pending values and later ones", async () => {
+  using ports = pair();
+  const reply = ports.local.value<number>();
+  ports.local.close(new Error("shutting down"));
+
+  await assertRejects(() => reply.wait(), Error, "shutting down");
+  const late = await ports.local.value<number>().wait().then(() => undefined, (e) => e);
+  assertEquals(late instanceof Fect.RemoteCancelled, true);
+  assertEquals(ports.local.size, 0);
+});
+
+Deno.test("remoteBridge ignores unrelated messages and unknown ids", async () => {
+  using ports = pair();
+  const reply = ports.local.value<string>();
+  ports.port2.postMessage({ op: "sum", items: [1, 2] });
+  ports.port2.postMessage({ $remoteValue: reply.id });
+
+  ports.remote.fill(crypto.randomUUID(), "stray");
+  ports.remote.fill(reply.id, "mine");
+  assertEquals(await reply.wait(), "mine");
+});
@@ -0,0 +1,90 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { Fect, fn, match } from "../mod.ts";
+
+Deno.test("RemoteStream delivers pushed values in order and ends", async () => {
+  const stream = Fect.remoteStream<number>();
+  queueMicrotask(() => {
+    stream.push(1);
+    stream.push(2);
+    stream.end();
+  });
+  assertEquals(await Array.fromAsync(stream), [1, 2]);
+  assertEquals(stream.push(3), false);
+});
+
+Deno.test("RemoteStream rejects iteration after buffered values when failed", async () => {
+  const stream = Fect.remoteStream<number>();
+  stream.push(1);
+  stream.fail(new Error("boom"));
+
+  const seen: number[] = [];
+  await assertRejects(
+    async () => {
+      for await (const n of stream) seen.push(n);
+    },
+    Error,
+    "boom",
+  );
+  assertEquals(seen, [1]);
+});
+
+Deno.test("RemoteStream overflow strategies apply to push", async () => {
+  const newest = Fect.remoteStream<number>({ bufferSize: 2, overflow: "drop-newest" });
+  assertEquals([newest.push(1), newest.push(2), newest.push(3)], [true, true, false]);
+  newest.end();
+  assertEquals(await Array.fromAsync(newest), [1, 2]);
+
+  const oldest = Fect.remoteStream<number>({ bufferSize: 2, overflow: "drop-oldest" });
+  [1, 2, 3].forEach((n) => oldest.push(n));
+  oldest.end();
+  assertEquals(await Array.fromAsync(oldest), [2, 3]);
+
+  const strict = Fect.remoteStream<number>({ bufferSize: 1 });
+  assertEquals([strict.push(1), strict.push(2)], [true, false]);
+  await assertRejects(() => Array.fromAsync(strict), Error, "overflowed");
+});
+
+Deno.test("RemoteStream write waits for the consumer", async () => {
+  const stream = Fect.remoteStream<number>({ bufferSize: 1 });
+  const written: number[] = [];
+  const producer = (async () => {
+    for (const n of [1, 2, 3]) {
+      await stream.write(n);
+      written.push(n);
+    }
+    stream.end();
+  })();
+
+  await Promise.resolve();
+  assertEquals([written, stream.buffered], [[1], 1]);
+  assertEquals(await Array.fromAsync(stream), [1, 2, 3]);
+  await producer;
+});
+
+Deno.test("RemoteStream composes with fn as per-item carriers or a collected array", async () => {
+  const double = fn((n: number) => n * 2);
+
+  const stream = Fect.remoteStream<number>();
+  [1, 2].forEach((n) => stream.push(n));
+  stream.fail(new Error("lost"));
+  const results: string[] = [];
+  for await (const item of stream.items()) {
+    results.push(match(double(item)).with({ ok: (n) => `${n}`, defect: (e) => `${(e.cause as Error).message}` }));
+  }
+  assertEquals(results, ["2", "4", "lost"]);
+
+  const collected = Fect.remoteStream<number>();
+  queueMicrotask(() => {
+    [1, 2, 3].forEach((n) => collected.push(n));
+    collected.end();
+  });
+  const sum = fn((ns: number[]) => ns.reduce((a, b) => a + b, 0));
+  assertEquals(await Fect.try(sum(collected.collect())), 6);
+});
+
+Deno.test("breaking out of for await ends the stream", async () => {
+  const stream = Fect.remoteStream<number>();
+  [1, 2, 3].forEach((n) => stream.push(n));
+  for await (const _ of stream) break;
+  assertEquals([stream.isSettled, stream.push(4)], [true, false]);
+});
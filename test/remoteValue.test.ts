@@ -1,5 +1,5 @@
 import { assertEquals, assertRejects } from "jsr:@std/assert";
-import { fn, remoteValue, RemoteValue, Fect } from "../mod.ts";
+import { Fect, fn, match, type RemoteCancelled, RemoteValue, remoteValue } from "../mod.ts";
 
 Deno.test("RemoteValue resolves via fill()", async () => {
   const rv = remoteValue<number>();
@@ -18,12 +18,10 @@ Deno.test("RemoteValue rejects via fail()", async () => {
 });
 
 Deno.test("RemoteValue supports timeout", async () => {
-  const rv = remoteValue<number>({ timeoutMs: 5 });
-  await assertRejects(
-    () => rv.wait(),
-    Error,
-    "timed out",
-  );
+  const rv = remoteValue<number>({ name: "reply", timeoutMs: 5 });
+  const reason = await rv.wait().then(() => undefined, (e) => e);
+  assertEquals(reason instanceof Fect.RemoteTimeout, true);
+  assertEquals(reason, Fect.RemoteTimeout.of({ id: rv.id, name: "reply", timeoutMs: 5 }));
 });
 
 Deno.test("RemoteValue registry supports resolveById()", async () => {
@@ -47,3 +45,86 @@ Deno.test("RemoteValue composes with fn infection flow", async () => {
 
   assertEquals(await Fect.try(out), 42);
 });
+
+Deno.test("RemoteValue timeouts and cancellation reach fn as domain errors", async () => {
+  const double = fn((n: number) => n * 2);
+  const describe = (rv: RemoteValue<number>) =>
+    match(double(rv)).with({
+      ok: (n) => `ok ${n}`,
+      err: {
+        RemoteTimeout: (e) => `timeout ${e.timeoutMs}`,
+        RemoteCancelled: (e) => `cancelled ${e.name}`,
+      },
+      defect: (e) => `defect ${(e.cause as Error).message}`,
+    });
+
+  assertEquals(await describe(remoteValue<number>({ timeoutMs: 5 })), "timeout 5");
+
+  const disposed = remoteValue<number>({ name: "reply" });
+  disposed[Symbol.dispose]();
+  assertEquals(await describe(disposed), "cancelled reply");
+
+  const failed = remoteValue<number>();
+  failed.fail(new Error("boom"));
+  assertEquals(await describe(failed), "defect boom");
+});
+
+Deno.test("RemoteValue reports its status and state without awaiting", async () => {
+  const filled = remoteValue<number>();
+  assertEquals([filled.status, filled.peek()], ["pending", { status: "pending" }]);
+  filled.fill(1);
+  assertEquals([filled.status, filled.peek()], ["filled", { status: "filled", value: 1 }]);
+
+  const failed = remoteValue<number>();
+  failed.fail("nope");
+  assertEquals(failed.peek(), { status: "failed", reason: "nope" });
+  await failed.then(() => {}, () => {});
+
+  const timedOut = remoteValue<number>({ timeoutMs: 5 });
+  await timedOut.then(() => {}, () => {});
+  assertEquals(timedOut.status, "timedOut");
+});
+
+Deno.test("RemoteValue cancel() and an aborted signal settle it as cancelled", async () => {
+  const rv = remoteValue<number>({ name: "reply" });
+  assertEquals(rv.cancel("user left"), true);
+  assertEquals([rv.status, rv.cancel(), rv.fill(1)], ["cancelled", false, false]);
+  const reason = await rv.then(() => undefined, (e) => e);
+  assertEquals(reason, Fect.RemoteCancelled.of({ id: rv.id, name: "reply", reason: "user left" }));
+
+  const controller = new AbortController();
+  const aborted = remoteValue<number>({ signal: controller.signal, timeoutMs: 1000 });
+  controller.abort("stop");
+  assertEquals(aborted.peek().status, "cancelled");
+  assertEquals((await aborted.then(() => undefined, (e) => e) as RemoteCancelled).reason, "stop");
+
+  const early = remoteValue<number>({ signal: AbortSignal.abort("already") });
+  assertEquals(early.status, "cancelled");
+});
+
+Deno.test("RemoteValue onSettle notifies listeners once, or right away when settled", () => {
+  const rv = remoteValue<number>();
+  const seen: string[] = [];
+  rv.onSettle((state) => seen.push(`a ${state.status}`));
+  const off = rv.onSettle((state) => seen.push(`b ${state.status}`));
+  off();
+  rv.fill(2);
+  rv.fill(3);
+  rv.onSettle((state) => seen.push(`c ${state.status === "filled" ? state.value : ""}`));
+  assertEquals(seen, ["a filled", "c 2"]);
+});
+
+Deno.test("RemoteValue settles even when an onSettle listener throws", async () => {
+  const reported: unknown[] = [];
+  const rv = remoteValue<number>({ onListenerError: (error) => reported.push(error) });
+  const seen: string[] = [];
+  rv.onSettle(() => {
+    throw new Error("listener");
+  });
+  rv.onSettle((state) => seen.push(state.status));
+
+  assertEquals(rv.fill(4), true);
+  assertEquals(await rv, 4);
+  assertEquals(seen, ["filled"]);
+  assertEquals((reported[0] as Error).message, "listener");
+});
@@ -0,0 +1,168 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class HttpError extends FectError("HttpError")<{ status: number }>() {}
+class BadInput extends FectError("BadInput")() {}
+
+function flaky(failures: number, error: () => unknown = () => HttpError.err({ status: 503 })) {
+  let calls = 0;
+  const load = fn(async (id: string) => {
+    calls += 1;
+    if (calls <= failures) return error() as ReturnType<typeof HttpError.err>;
+    return { id, calls };
+  });
+  return { load, calls: () => calls };
+}
+
+Deno.test("Schedule builds fixed, exponential and capped delays", () => {
+  const error = HttpError.of({ status: 503 });
+  assertEquals(Fect.Schedule.fixed(10).next(3, error), { _tag: "Retry", delayMs: 10 });
+  assertEquals(
+    [1, 2, 3, 4].map((n) => Fect.Schedule.exponential(100, 2, 500).next(n, error)),
+    [100, 200, 400, 500].map((delayMs) => ({ _tag: "Retry", delayMs })),
+  );
+  assertEquals(
+    Fect.Schedule.jittered(Fect.Schedule.fixed(100), () => 0.5).next(1, error),
+    { _tag: "Retry", delayMs: 100 },
+  );
+  assertEquals(
+    Fect.Schedule.maxAttempts(Fect.Schedule.fixed(10), 2).next(2, error),
+    { _tag: "Exhausted" },
+  );
+  assertEquals(
+    Fect.Schedule.whileTag(Fect.Schedule.fixed(10), ["HttpError"]).next(1, BadInput.of()),
+    { _tag: "Stop" },
+  );
+});
+
+Deno.test("Fect.retry re-runs a thunk until it succeeds", async () => {
+  const clock = Fect.Schedule.testClock();
+  const { load, calls } = flaky(2);
+
+  const out = Fect.retry(() => load("42"), Fect.Schedule.exponential(100), { clock });
+
+  assertEquals(await Fect.try(out), { id: "42", calls: 3 });
+  assertEquals(calls(), 3);
+  assertEquals(clock.sleeps, [100, 200]);
+});
+
+Deno.test("Fect.retry reports RetriesExhausted with the last error", async () => {
+  const clock = Fect.Schedule.testClock();
+  const { load } = flaky(10);
+
+  const out = Fect.retry(
+    () => load("42"),
+    Fect.Schedule.maxAttempts(Fect.Schedule.fixed(10), 3),
+    { clock },
+  );
+
+  const value = await match(out).with({
+    ok: () => "ok",
+    err: (e) => e._tag === "RetriesExhausted" ? `${e.attempts}x ${(e.lastError as HttpError)._tag}` : e._tag,
+  });
+  assertEquals(value, "3x HttpError");
+  assertEquals(clock.sleeps, [10, 10]);
+});
+
+Deno.test("Fect.retry stops on errors the schedule does not accept", async () => {
+  const clock = Fect.Schedule.testClock();
+  const { load, calls } = flaky(10, () => BadInput.err());
+
+  const out = Fect.retry(
+    () => load("42"),
+    Fect.Schedule.while(Fect.Schedule.fixed(10), (e) => (e as { _tag: string })._tag === "HttpError"),
+    { clock },
+  );
+
+  const value = await match(out).with({
+    ok: () => "ok",
+    err: (e) => e._tag,
+  });
+  assertEquals(value, "BadInput");
+  assertEquals(calls(), 1);
+});
+
+Deno.test("fn retry option re-runs failing async handlers with the same inputs", async () => {
+  const clock = Fect.Schedule.testClock();
+  const seen: number[] = [];
+  let calls = 0;
+  const load = fn(async (n: number) => {
+    seen.push(n);
+    calls += 1;
+    if (calls < 3) throw new Error("flaky");
+    return n * 2;
+  }, { retry: Fect.Schedule.maxAttempts(Fect.Schedule.fixed(5), 5), clock });
+
+  assertEquals(await Fect.try(load(Fect.ok(21))), 42);
+  assertEquals(seen, [21, 21, 21]);
+  assertEquals(clock.sleeps, [5, 5]);
+});
+
+Deno.test("fn retry option re-runs sync throws and Fails", async () => {
+  const clock = Fect.Schedule.testClock();
+  let throws = 0;
+  const parse = fn((text: string) => {
+    throws += 1;
+    if (throws < 3) throw new Error("flaky");
+    return Number(text);
+  }, { retry: Fect.Schedule.maxAttempts(Fect.Schedule.fixed(5), 5), clock });
+  assertEquals(await Fect.try(parse("42")), 42);
+  assertEquals(throws, 3);
+
+  let fails = 0;
+  const load = fn((id: string) => {
+    fails += 1;
+    return fails < 2 ? HttpError.err({ status: 503 }) : { id };
+  }, { retry: Fect.Schedule.maxAttempts(Fect.Schedule.fixed(5), 5), clock });
+  assertEquals(await Fect.try(load(Fect.ok("7"))), { id: "7" });
+  assertEquals(fails, 2);
+  assertEquals(clock.sleeps, [5, 5, 5]);
+});
+
+Deno.test("fn retry option reports RetriesExhausted for a sync handler", async () => {
+  const clock = Fect.Schedule.testClock();
+  const always = fn((_: string): number => {
+    throw new Error("down");
+  }, { retry: Fect.Schedule.maxAttempts(Fect.Schedule.fixed(1), 2), clock });
+
+  const value = await match(always("x")).with({
+    ok: () => "ok",
+    err: { RetriesExhausted: (e) => `${e.attempts}x` },
+    defect: () => "defect",
+  });
+  assertEquals(value, "2x");
+});
+
+if (false) {
+  const load = fn(async (id: string) => id, { retry: Fect.Schedule.fixed(10) });
+  const parse = fn((text: string) => Number(text), { retry: Fect.Schedule.fixed(10) });
+
+  // Retried sync handlers settle async and may exhaust their schedule.
+  const parsed: Promise<number> = Fect.try(parse("1"));
+  match(parse("1")).with({
+    ok: (v) => v,
+    // @ts-expect-error RetriesExhausted branch must be required
+    err: {},
+  });
+  void parsed;
+
+  match(load("1")).with({
+    ok: (v) => v,
+    // @ts-expect-error RetriesExhausted branch must be required
+    err: {},
+  });
+
+  const loadUser = fn(async (id: string) => {
+    if (id === "") return HttpError.err({ status: 400 });
+    return { id };
+  });
+  const retried = Fect.retry(() => loadUser("1"), Fect.Schedule.fixed(10));
+
+  match(retried).with({
+    ok: (user) => user.id,
+    err: {
+      HttpError: (e) => String(e.status),
+      RetriesExhausted: (e) => e.lastError._tag,
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+
+Fect.registerErrors(NotFound);
+
+type User = { id: string; name: string };
+
+const UserApi = Fect.rpc.define({
+  getUser: Fect.rpc.method<[id: string], User, NotFound>(),
+  rename: Fect.rpc.method<[id: string, name: string], User, NotFound>(),
+  crash: Fect.rpc.method<[], number>(),
+  never: Fect.rpc.method<[], number>(),
+});
+
+function connect(options: { timeoutMs?: number } = {}) {
+  const [clientSide, serverSide] = Fect.rpc.memoryTransport();
+  const users = new Map([["7", { id: "7", name: "Ada" }]]);
+  const getUser = fn((id: string) => users.get(id) ?? NotFound.err({ id }));
+  const server = Fect.rpc.serve(UserApi, serverSide, {
+    getUser,
+    rename: async (id, name) => {
+      await Promise.resolve();
+      const user = users.get(id);
+      return user ? { ...user, name } : NotFound.err({ id });
+    },
+    crash: () => {
+      throw new TypeError("bad state");
+    },
+    never: () => new Promise<number>(() => {}),
+  });
+  const client = Fect.rpc.client(UserApi, clientSide, options);
+  return {
+    client,
+    [Symbol.dispose]() {
+      client[Symbol.dispose]();
+      server[Symbol.dispose]();
+    },
+  };
+}
+
+const describe = (user: ReturnType<ReturnType<typeof connect>["client"]["getUser"]>) =>
+  match(user).with({
+    ok: (u) => `ok ${u.name}`,
+    err: {
+      NotFound: (e) => `not found ${e.id} ${e instanceof NotFound}`,
+      RemoteTimeout: () => "timeout",
+      RemoteCancelled: () => "cancelled",
+    },
+    defect: (e) => `defect ${(e.cause as Error).name}`,
+  });
+
+Deno.test("rpc calls return async carriers settled by the server's reply", async () => {
+  using rpc = connect();
+  assertEquals(Fect.fxOf(rpc.client.getUser("7")).async, true);
+  assertEquals(await describe(rpc.client.getUser("7")), "ok Ada");
+  assertEquals(await describe(rpc.client.rename("7", "Grace")), "ok Grace");
+
+  const greet = fn((user: User) => `hi ${user.name}`);
+  assertEquals(await Fect.try(greet(rpc.client.getUser("7"))), "hi Ada");
+});
+
+Deno.test("rpc tagged errors arrive as instances and throws as defects", async () => {
+  using rpc = connect();
+  assertEquals(await describe(rpc.client.getUser("8")), "not found 8 true");
+  assertEquals(await describe(rpc.client.rename("8", "x")), "not found 8 true");
+  const crashed = await match(rpc.client.crash()).with({
+    ok: () => "",
+    err: { RemoteTimeout: () => "timeout", RemoteCancelled: () => "cancelled" },
+    defect: (e) => `${(e.cause as Error).name}: ${(e.cause as Error).message}`,
+  });
+  assertEquals(crashed, "TypeError: bad state");
+});
+
+Deno.test("rpc calls time out and are cancelled when the client is disposed", async () => {
+  const outcome = (carrier: ReturnType<ReturnType<typeof connect>["client"]["never"]>) =>
+    match(carrier).with({
+      ok: () => "ok",
+      err: { RemoteTimeout: (e) => `timeout ${e.name}`, RemoteCancelled: () => "cancelled" },
+      defect: () => "defect",
+    });
+
+  const disposed = connect({ timeoutMs: 1000 });
+  const cancelled = disposed.client.never();
+  disposed[Symbol.dispose]();
+  assertEquals(await outcome(cancelled), "cancelled");
+
+  using rpc = connect({ timeoutMs: 5 });
+  assertEquals(await outcome(rpc.client.never()), "timeout never");
+});
+
+Deno.test("a client only settles its own calls from replies", async () => {
+  const [clientSide, serverSide] = Fect.rpc.memoryTransport();
+  using _client = Fect.rpc.client(UserApi, clientSide);
+  const elsewhere = Fect.remoteValue<unknown>({ register: true });
+  serverSide.send({ $rpc: "reply", id: elsewhere.id, data: Fect.serialize(Fect.ok(1)) });
+  await Promise.resolve();
+  assertEquals(elsewhere.isSettled, false);
+  elsewhere.cancel();
+});
+
+Deno.test("a call whose message cannot be sent fails as a defect", async () => {
+  const broken = {
+    send: () => {
+      throw new Error("socket closed");
+    },
+    onMessage: () => () => {},
+  };
+  using client = Fect.rpc.client(UserApi, broken);
+  const out = await match(client.getUser("7")).with({
+    ok: () => "ok",
+    err: { NotFound: () => "not found", RemoteTimeout: () => "timeout", RemoteCancelled: () => "cancelled" },
+    defect: (e) => (e.cause as Error).message,
+  });
+  assertEquals(out, "socket closed");
+});
+
+Deno.test("results the server cannot serialize reach the client as defects", async () => {
+  const [clientSide, serverSide] = Fect.rpc.memoryTransport();
+  using _server = Fect.rpc.serve(UserApi, serverSide, {
+    getUser: (id) => ({ id, name: "Ada", joined: new URL("https://example.com") }),
+    rename: (id, name) => ({ id, name }),
+    crash: () => 0,
+    never: () => 0,
+  });
+  using client = Fect.rpc.client(UserApi, clientSide, { timeoutMs: 1000 });
+  assertEquals(await describe(client.getUser("7")), "defect TypeError");
+});
+
+if (false) {
+  using rpc = connect();
+  match(rpc.client.getUser("7")).with({
+    ok: (u: User) => u,
+    // @ts-expect-error NotFound, RemoteTimeout and RemoteCancelled must all be handled
+    err: { NotFound: () => undefined },
+  });
+  // @ts-expect-error arguments follow the method declaration
+  rpc.client.rename("7");
+}
@@ -0,0 +1,161 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class Closed extends FectError("Closed")() {}
+
+type Conn = { id: number; open: boolean };
+
+function pool() {
+  const log: string[] = [];
+  let next = 0;
+  const acquire = () =>
+    Fect.acquireRelease(
+      () => {
+        const conn = { id: next += 1, open: true };
+        log.push(`open ${conn.id}`);
+        return conn;
+      },
+      (conn: Conn, exit) => {
+        conn.open = false;
+        log.push(`close ${conn.id} ${exit.tag}`);
+      },
+    );
+  return { log, acquire };
+}
+
+const query = fn((conn: Conn, sql: string) => {
+  if (!conn.open) return Closed.err();
+  return `${sql} on ${conn.id}`;
+});
+
+Deno.test("match on a downstream carrier runs the finalizer", () => {
+  const { log, acquire } = pool();
+  const rows = query(acquire(), "select 1");
+  assertEquals(log, ["open 1"]);
+
+  const value = match(rows).with({
+    ok: (v) => v,
+    err: { Closed: () => "closed" },
+  });
+  assertEquals(value, "select 1 on 1");
+  assertEquals(log, ["open 1", "close 1 ok"]);
+});
+
+Deno.test("finalizers run on err and when a handler throws", () => {
+  const { log, acquire } = pool();
+  const failing = fn((_conn: Conn) => Closed.err());
+
+  assertThrows(() => Fect.try(failing(acquire())));
+  assertThrows(() =>
+    match(query(acquire(), "x")).with({
+      ok: () => {
+        throw new Error("boom");
+      },
+      err: { Closed: () => "closed" },
+    })
+  );
+  assertEquals(log, ["open 1", "close 1 err", "open 2", "close 2 ok"]);
+});
+
+Deno.test("async finalizers are awaited before an async match settles", async () => {
+  const log: string[] = [];
+  const conn = Fect.acquireRelease(
+    async () => ({ id: 1 }),
+    async () => {
+      await Promise.resolve();
+      log.push("released");
+    },
+  );
+  const value = await Fect.try(fn((c: { id: number }) => c.id + 1)(conn));
+  assertEquals(value, 2);
+  assertEquals(log, ["released"]);
+});
+
+Deno.test("scoped closes resources in reverse order once the result settles", async () => {
+  const { log, acquire } = pool();
+  const both = fn(async (a: Conn, b: Conn) => `${a.id}+${b.id}`);
+
+  const out = Fect.scoped(() => both(acquire(), acquire()));
+  assertEquals(await Fect.try(out), "1+2");
+  assertEquals(log, ["open 1", "open 2", "close 2 ok", "close 1 ok"]);
+});
+
+Deno.test("scoped releases resources the result does not use", () => {
+  const { log, acquire } = pool();
+  const out = Fect.scoped(() => {
+    acquire();
+    return 42;
+  });
+  assertEquals(log, ["open 1", "close 1 ok"]);
+  assertEquals(Fect.try(out), 42);
+});
+
+Deno.test("scoped waits for async finalizers of a sync result and keeps their failure", async () => {
+  const log: string[] = [];
+  const out = Fect.scoped(() => {
+    Fect.acquireRelease(() => 1, async () => {
+      await Promise.resolve();
+      log.push("released");
+    });
+    Fect.acquireRelease(() => 2, () => Promise.reject(new Error("release failed")));
+    return 42;
+  });
+  assertEquals(Fect.fxOf(out).async, true);
+
+  const value = await match(out).with({ ok: (n) => n, defect: (e) => (e.cause as Error).message });
+  assertEquals(value, "release failed");
+  assertEquals(log, ["released"]);
+});
+
+Deno.test("Scope works with await using", async () => {
+  const log: string[] = [];
+  {
+    await using scope = new Fect.Scope();
+    Fect.acquireRelease(() => "a", (r) => void log.push(`close ${r}`), scope);
+    Fect.acquireRelease(() => "b", (r) => void log.push(`close ${r}`), scope);
+    assertEquals(log, []);
+  }
+  assertEquals(log, ["close b", "close a"]);
+});
+
+Deno.test("a failing async release on a sync carrier is reported, not left unhandled", async () => {
+  const reported: unknown[] = [];
+  const previous = Fect.Scope.reportError;
+  Fect.Scope.reportError = (error) => void reported.push(error);
+  try {
+    const value = match(Fect.acquireRelease(() => 1, () => Promise.reject(new Error("release failed")))).with({
+      ok: (n) => n,
+      defect: () => 0,
+    });
+    assertEquals(value, 1);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assertEquals(reported.map((e) => (e as Error).message), ["release failed"]);
+  } finally {
+    Fect.Scope.reportError = previous;
+  }
+});
+
+Deno.test("disposing a pending RemoteValue fails it", async () => {
+  const remote = Fect.remoteValue<number>({ name: "reply", register: true });
+  {
+    using _ = remote;
+  }
+  assertEquals(remote.isSettled, true);
+  assertEquals(Fect.RemoteValue.resolveById(remote.id, 1), false);
+  const reason = await remote.then(() => "filled", (e) => e);
+  assertEquals(reason instanceof Fect.RemoteCancelled, true);
+});
+
+if (false) {
+  const { acquire } = pool();
+  const rows = query(acquire(), "select 1");
+
+  match(rows).with({
+    ok: (v) => v,
+    // @ts-expect-error a throwing acquire is a defect, not a domain error
+    err: { Closed: () => "", UnknownException: () => "" },
+  });
+
+  // @ts-expect-error release receives the acquired resource
+  Fect.acquireRelease(() => 1, (n: string) => void n);
+}
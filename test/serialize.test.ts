@@ -0,0 +1,105 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { err, Fect, FectError, fn, match, ok } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+class Unregistered extends FectError("Unregistered")<{ reason: string }>() {}
+
+Fect.registerErrors(NotFound);
+
+const viaJson = <T>(data: T): T => JSON.parse(JSON.stringify(data));
+
+Deno.test("a sync error carrier round-trips through JSON as a real instance", () => {
+  const data = viaJson(Fect.serialize(err(NotFound.of({ id: "7" }))));
+  const out = Fect.deserialize(data);
+
+  const error = match(out).with({ ok: () => undefined, err: (e) => e });
+  assertEquals(error instanceof NotFound, true);
+  assertEquals(error?.id, "7");
+  assertEquals(Fect.fxOf(out).errors, ["NotFound"]);
+});
+
+Deno.test("a settled async carrier round-trips through structuredClone and stays async", async () => {
+  const load = fn(async (id: string) => ({ id, tags: ["a", "b"] }));
+  const data = structuredClone(await Fect.serialize(load("7")));
+  const out = Fect.deserialize(data);
+
+  assertEquals(Fect.fxOf(out).async, true);
+  assertEquals(await Fect.try(out), { id: "7", tags: ["a", "b"] });
+});
+
+Deno.test("nested errors, defects and causes survive the round trip", async () => {
+  const retried = Fect.retry(async () => {
+    await Promise.resolve();
+    return NotFound.err({ id: "7" });
+  }, Fect.Schedule.maxAttempts(Fect.Schedule.fixed(0), 2));
+  const exhausted = Fect.deserialize(viaJson(await Fect.serialize(Fect.annotate(retried, "loading user"))));
+  const message = await match(exhausted).with({
+    ok: () => "",
+    err: {
+      NotFound: () => "not found",
+      RetriesExhausted: (e, cause) => `${e instanceof Fect.RetriesExhausted} ${e.lastError instanceof NotFound} ${Fect.prettyCause(cause).split("\n")[0]}`,
+    },
+  });
+  assertEquals(message, "true true loading user");
+
+  const crash = fn((_n: number) => {
+    throw new TypeError("bad input");
+  });
+  const defect = Fect.deserialize(viaJson(await Fect.serialize(crash(ok(1)))));
+  const thrown = await Promise.resolve().then(() => Fect.try(defect)).then(() => undefined, (cause) => cause);
+  assertEquals(thrown instanceof Error, true);
+  assertEquals([(thrown as Error).name, (thrown as Error).message], ["TypeError", "bad input"]);
+});
+
+Deno.test("unregistered tags come back as plain tagged objects", () => {
+  const out = Fect.deserialize(viaJson(Fect.serialize(err(Unregistered.of({ reason: "x" })))));
+  const error = match(out).with({ ok: () => undefined, err: (e) => e });
+  assertEquals(error instanceof Unregistered, false);
+  assertEquals(error, { _tag: "Unregistered", reason: "x" });
+});
+
+Deno.test("tagged data that is not an error stays plain, and Date, Map and Set are kept", () => {
+  const value = {
+    shape: { _tag: "Circle", radius: 2 },
+    at: new Date("2024-01-02T03:04:05.000Z"),
+    index: new Map([["a", new Set([1, 2])]]),
+  };
+  const data = viaJson(Fect.serialize(ok(value)));
+  assertEquals((data.payload as { value: { shape: unknown } }).value.shape, { _tag: "Circle", radius: 2 });
+  assertEquals(Fect.try(Fect.deserialize(data)), value);
+});
+
+Deno.test("objects whose keys look like the encoding markers round-trip unchanged", () => {
+  const value = {
+    $set: { a: 1 },
+    nested: { $date: "x", $obj: [1], $map: new Map([["$error", { $exception: true }]]) },
+  };
+  assertEquals(Fect.try(Fect.deserialize(viaJson(Fect.serialize(ok(value))))), value);
+
+  const error = NotFound.of({ id: "7" });
+  const out = Fect.deserialize(viaJson(Fect.serialize(err(Object.assign(error, { $set: [1] })))));
+  const decoded = match(out).with({ ok: () => undefined, err: { NotFound: (e) => e } });
+  assertEquals(decoded instanceof NotFound, true);
+  assertEquals((decoded as unknown as { $set: unknown }).$set, [1]);
+});
+
+Deno.test("circular values and other class instances cannot be serialized", () => {
+  const loop: { self?: unknown } = {};
+  loop.self = loop;
+  assertThrows(() => Fect.serialize(ok(loop)), TypeError, "circular");
+  assertThrows(() => Fect.serialize(ok(new URL("https://example.com"))), TypeError, "URL");
+
+  const shared = { id: 1 };
+  assertEquals(Fect.try(Fect.deserialize(Fect.serialize(ok([shared, shared])))), [shared, shared]);
+});
+
+if (false) {
+  const load = fn(async (id: string) => id === "" ? NotFound.err({ id }) : id);
+  const out = Fect.deserialize(await Fect.serialize(load("7")));
+
+  match(out).with({
+    ok: (v: string) => v,
+    // @ts-expect-error the deserialized carrier keeps its error channel
+    err: {},
+  });
+}
@@ -0,0 +1,126 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+type User = { id: string; name: string };
+interface DbApi {
+  find(id: string): User | undefined;
+}
+interface LogApi {
+  lines: string[];
+}
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+
+const Db = Fect.service<DbApi>("Db");
+const Log = Fect.service<LogApi>("Log");
+
+const fakeDb: DbApi = {
+  find: (id) => id === "42" ? { id, name: "Ada" } : undefined,
+};
+
+const loadUser = fn((db: DbApi, id: string) => {
+  const user = db.find(id);
+  if (!user) return NotFound.err({ id });
+  return user;
+});
+
+const greet = fn((user: User) => `Hello, ${user.name}`);
+
+Deno.test("service inputs defer the call until provided", () => {
+  let calls = 0;
+  const count = fn((db: DbApi) => {
+    calls += 1;
+    return db.find("42");
+  });
+
+  const out = count(Db);
+  assertEquals(calls, 0);
+  assertEquals(Fect.isDeferred(out), true);
+
+  const provided = Fect.provide(out, Db, fakeDb);
+  assertEquals(calls, 1);
+  assertEquals(Fect.try(provided), { id: "42", name: "Ada" });
+});
+
+Deno.test("requirements flow through downstream fn calls", () => {
+  const message = greet(loadUser(Db, "42"));
+
+  const value = match(Fect.provide(message, Db, fakeDb)).with({
+    ok: (v) => v,
+    err: {
+      NotFound: (e) => `missing ${e.id}`,
+    },
+  });
+  assertEquals(value, "Hello, Ada");
+});
+
+Deno.test("swapping implementations re-runs the deferred work", () => {
+  const message = greet(loadUser(Db, "42"));
+  const otherDb: DbApi = { find: (id) => ({ id, name: "Grace" }) };
+
+  assertEquals(Fect.try(Fect.provide(message, Db, fakeDb)), "Hello, Ada");
+  assertEquals(Fect.try(Fect.provide(message, Db, otherDb)), "Hello, Grace");
+});
+
+Deno.test("Service.use reads a service inside a handler", () => {
+  const audit = fn((user: User) =>
+    Log.use((log) => {
+      log.lines.push(`loaded ${user.id}`);
+      return user.name;
+    })
+  );
+  const log: LogApi = { lines: [] };
+
+  const out = audit(loadUser(Db, "42"));
+  const withDb = Fect.provide(out, Db, fakeDb);
+  assertEquals(Fect.isDeferred(withDb), true);
+
+  assertEquals(Fect.try(Fect.provide(withDb, Log, log)), "Ada");
+  assertEquals(log.lines, ["loaded 42"]);
+});
+
+Deno.test("Fect.all joins deferred inputs", () => {
+  const both = Fect.all([loadUser(Db, "42"), Log]);
+  const out = Fect.provide(Fect.provide(both, Db, fakeDb), Log, { lines: ["x"] });
+
+  const value = match(out).with({
+    ok: ([user, log]) => `${user.name}:${log.lines.length}`,
+    err: {
+      NotFound: () => "missing",
+    },
+  });
+  assertEquals(value, "Ada:1");
+});
+
+Deno.test("providing the same implementation again reuses the deferred result", () => {
+  let calls = 0;
+  const count = fn((db: DbApi) => (calls += 1, db.find("42")));
+  const out = count(Db);
+
+  Fect.try(Fect.provide(out, Db, fakeDb));
+  Fect.try(Fect.provide(out, Db, fakeDb));
+  assertEquals(calls, 1);
+});
+
+Deno.test("running a carrier with missing services settles a MissingService defect", () => {
+  const out = greet(loadUser(Db, "42"));
+  const thrown = assertThrows(() => Fect.try(out)) as InstanceType<typeof Fect.MissingService>;
+  assertEquals([thrown._tag, thrown.services], ["MissingService", ["Db"]]);
+  assertEquals(Fect.inspect(out), "Fect.deferred { requires: Db }");
+});
+
+if (false) {
+  const out = greet(loadUser(Db, "42"));
+  const needsDb: { requires: typeof Db } = out.fx;
+  const provided = Fect.provide(out, Db, fakeDb);
+
+  // @ts-expect-error provided carriers no longer require Db
+  const stillNeedsDb: { requires: typeof Db } = provided.fx;
+
+  // @ts-expect-error implementation must match the service type
+  Fect.provide(out, Db, { lines: [] });
+
+  const both = Fect.all([out, Log]);
+  const onlyLog: { requires: typeof Log } = Fect.provide(both, Db, fakeDb).fx;
+  void [needsDb, stillNeedsDb, onlyLog];
+}
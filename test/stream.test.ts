@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { fail, Fect, FectError, fn, match, type Stream } from "../mod.ts";
+
+class BadRow extends FectError("BadRow")<{ line: string }>() {}
+
+async function* count(to: number): AsyncGenerator<number> {
+  for (let n = 1; n <= to; n++) yield n;
+}
+
+Deno.test("fn maps a stream per element and Fect.try collects it", async () => {
+  const double = fn((n: number) => n * 2);
+  const doubled = double(Fect.stream([1, 2, 3]));
+  assertEquals(Fect.isStream(doubled), true);
+  assertEquals(await Fect.try(doubled), [2, 4, 6]);
+});
+
+Deno.test("fn maps a plain async iterable input as a stream", async () => {
+  const seen: number[] = [];
+  const square = fn((n: number) => {
+    seen.push(n);
+    return n * n;
+  });
+  const squares = square(count(3));
+  // Nothing is read until the stream is consumed.
+  assertEquals(seen, []);
+  assertEquals(await Fect.try(squares), [1, 4, 9]);
+  assertEquals(seen, [1, 2, 3]);
+});
+
+Deno.test("chained fns pull one element at a time", async () => {
+  const log: string[] = [];
+  const inc = fn((n: number) => (log.push(`inc ${n}`), n + 1));
+  const show = fn((n: number) => (log.push(`show ${n}`), Promise.resolve(`#${n}`)));
+  assertEquals(await Fect.try(show(inc(count(2)))), ["#2", "#3"]);
+  assertEquals(log, ["inc 1", "show 2", "inc 2", "show 3"]);
+});
+
+Deno.test("a tagged error ends the stream and match handles it", async () => {
+  let calls = 0;
+  const parse = fn((line: string) => {
+    calls++;
+    return line.startsWith("{") ? JSON.parse(line) as { id: number } : fail(new BadRow({ line }));
+  });
+
+  const out = await match(parse(Fect.stream(['{"id":1}', "oops", '{"id":3}']))).with({
+    ok: (rows) => `rows ${rows.length}`,
+    err: { BadRow: (e) => `bad ${e.line}` },
+  });
+  assertEquals([out, calls], ["bad oops", 2]);
+});
+
+Deno.test("source failures and handler throws end the stream as defects", async () => {
+  async function* broken() {
+    yield 1;
+    await Promise.reject(new Error("disk gone"));
+  }
+  const id = fn((n: number) => n);
+  await assertRejects(() => Fect.try(id(broken())), Error, "disk gone");
+
+  const explode = fn((n: number) => {
+    if (n === 2) throw new Error("two");
+    return n;
+  });
+  const out = await match(explode(Fect.stream([1, 2, 3]))).with({
+    ok: (ns) => ns.join(),
+    defect: (d) => (d.cause as Error).message,
+  });
+  assertEquals(out, "two");
+});
+
+Deno.test("stream inputs pair up, other inputs are passed to every call", async () => {
+  const label = fn((prefix: string, n: number, suffix: string) => `${prefix}${n}${suffix}`);
+  const labels = label(Fect.stream(["a", "b", "c"]), count(2), "!");
+  assertEquals(await Fect.try(labels), ["a1!", "b2!"]);
+});
+
+Deno.test("a RemoteStream feeds fn as a stream", async () => {
+  const updates = Fect.remoteStream<number>();
+  queueMicrotask(() => {
+    [1, 2].forEach((n) => updates.push(n));
+    updates.end();
+  });
+  const double = fn((n: number) => n * 2);
+  assertEquals(await Fect.try(double(updates)), [2, 4]);
+});
+
+Deno.test("lines splits chunks for NDJSON", async () => {
+  const encoder = new TextEncoder();
+  const chunks = [encoder.encode('{"id":1}\n{"i'), 'd":2}\r\n\n', encoder.encode('{"id":3}')];
+  const parse = fn((line: string) => JSON.parse(line) as { id: number });
+  const ids = fn((row: { id: number }) => row.id);
+  assertEquals(await Fect.try(ids(parse(Fect.lines(chunks)))), [1, 2, 3]);
+});
+
+Deno.test("a stream is read once; reading it again is a defect", async () => {
+  const double = fn((n: number) => n * 2);
+  const numbers = Fect.stream(count(2));
+  assertEquals(await Fect.try(double(numbers)), [2, 4]);
+  await assertRejects(() => Fect.try(double(numbers)), Error, "already read");
+
+  // Matching the same stream twice reuses what it collected.
+  const doubled = double(Fect.stream(count(2)));
+  assertEquals(await Fect.try(doubled), [2, 4]);
+  assertEquals(await Fect.try(doubled), [2, 4]);
+});
+
+if (false) {
+  const double = fn((n: number) => n * 2);
+  const doubled: Stream<number, { defect: unknown }> = double(Fect.stream([1]));
+  const collected: Promise<number[]> = Fect.try(doubled);
+  match(doubled).with({ ok: (ns: number[]) => ns.length, defect: () => 0 });
+  // @ts-expect-error Streams collect into arrays
+  const single: Promise<number> = Fect.try(doubled);
+  void [collected, single];
+}
@@ -0,0 +1,104 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class Flaky extends FectError("Flaky")<{ attempt: number }>() {}
+class Fatal extends FectError("Fatal")() {}
+
+/** A task that fails `failures` times before succeeding with `value`. */
+function flaky<T>(failures: number, value: T) {
+  let attempt = 0;
+  const starts: number[] = [];
+  const run = fn(async () => {
+    attempt += 1;
+    starts.push(attempt);
+    await Promise.resolve();
+    return attempt <= failures ? Flaky.err({ attempt }) : value;
+  });
+  return { run, starts };
+}
+
+Deno.test("one-for-one restarts only the failed child, after the backoff delay", async () => {
+  const clock = Fect.Schedule.testClock();
+  const a = flaky(2, "a");
+  const b = flaky(0, "b");
+  const app = Fect.supervise({ a: () => a.run(), b: () => b.run() }, { backoff: Fect.Schedule.fixed(50), clock });
+
+  assertEquals(await Fect.try(app), { a: "a", b: "b" });
+  assertEquals([a.starts, b.starts, clock.sleeps], [[1, 2, 3], [1], [50, 50]]);
+});
+
+Deno.test("all-for-one restarts every child when one fails", async () => {
+  const a = flaky(1, "a");
+  const b = flaky(0, "b");
+  const app = Fect.supervise({ a: () => a.run(), b: () => b.run() }, { strategy: "all-for-one", clock: Fect.Schedule.testClock() });
+
+  assertEquals(await Fect.try(app), { a: "a", b: "b" });
+  assertEquals([a.starts, b.starts], [[1, 2], [1, 2]]);
+});
+
+Deno.test("too many restarts within the window settle with RestartLimitExceeded", async () => {
+  const a = flaky(10, "a");
+  const app = Fect.supervise({ a: () => a.run() }, { maxRestarts: 2, withinMs: 1000, clock: Fect.Schedule.testClock() });
+
+  const message = await match(app).with({
+    ok: () => "ok",
+    err: {
+      ChildFailed: () => "failed",
+      RestartLimitExceeded: (e) => `${e.child} ${e.restarts} ${e.lastFailure.error instanceof Flaky}`,
+      Interrupted: () => "interrupted",
+    },
+  });
+  assertEquals(message, "a 2 true");
+  assertEquals(a.starts, [1, 2, 3]);
+});
+
+Deno.test("a backoff that stops on an error escalates ChildFailed and stops the siblings", async () => {
+  let siblingSignal: AbortSignal | undefined;
+  const app = Fect.supervise({
+    fatal: () => Fatal.err(),
+    sibling: () => {
+      siblingSignal = Fect.signal();
+      return new Promise(() => {});
+    },
+  }, { backoff: Fect.Schedule.whileTag(Fect.Schedule.fixed(0), ["Flaky"]) });
+
+  const message = await match(app).with({
+    ok: () => "ok",
+    err: {
+      ChildFailed: (e) => `${e.child} ${(e.error as { _tag: string })._tag}`,
+      RestartLimitExceeded: () => "limit",
+      Interrupted: () => "interrupted",
+    },
+  });
+  assertEquals(message, "fatal Fatal");
+  assertEquals(siblingSignal?.aborted, true);
+});
+
+Deno.test("actors stopped by a defect are restarted with fresh state", async () => {
+  let current!: ReturnType<typeof makeCounter>;
+  const makeCounter = () =>
+    Fect.actor({ n: 0 }, {
+      add: (ctx) => ++ctx.state.n,
+      crash: () => {
+        throw new Error("boom");
+      },
+    }, { stopOnDefect: true });
+
+  const controller = new AbortController();
+  const app = Fect.supervise({ counter: () => (current = makeCounter()) }, { signal: controller.signal });
+  const first = current;
+  assertEquals(await Fect.try(first.ask({ _tag: "add" })), 1);
+  await match(first.ask({ _tag: "crash" })).with({ ok: () => {}, err: { ActorStopped: () => {} }, defect: () => {} });
+  // The restart waits for the default backoff's zero-delay timer.
+  await new Promise((resolve) => setTimeout(resolve, 5));
+
+  assertEquals([first.isStopped, current === first], [true, false]);
+  assertEquals(await Fect.try(current.ask({ _tag: "add" })), 1);
+
+  controller.abort("shutdown");
+  const message = await match(app).with({
+    ok: () => "ok",
+    err: { ChildFailed: () => "failed", RestartLimitExceeded: () => "limit", Interrupted: (e) => `${e.reason}` },
+  });
+  assertEquals([message, current.isStopped], ["shutdown", true]);
+});
@@ -0,0 +1,107 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, fn, match, ok } from "../mod.ts";
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+Deno.test("fn timeoutMs settles slow async calls with TimeoutError", async () => {
+  const slow = fn((n: number) => delay(50, n), { timeoutMs: 5 });
+
+  const value = await match(slow(1)).with({
+    ok: (v) => `ok ${v}`,
+    err: {
+      TimeoutError: (e) => `timed out after ${e.timeoutMs}ms`,
+    },
+  });
+  assertEquals(value, "timed out after 5ms");
+  await delay(50, null);
+});
+
+Deno.test("fn timeoutMs lets fast calls through", async () => {
+  const fast = fn(async (n: number) => n + 1, { timeoutMs: 50 });
+  const double = fn((n: number) => n * 2);
+
+  assertEquals(await Fect.try(double(fast(ok(1)))), 4);
+});
+
+Deno.test("fn timeoutMs also bounds waiting on async inputs", async () => {
+  const add = fn((a: number, b: number) => a + b, { timeoutMs: 5 });
+
+  const out = add(delay(50, 1), ok(2));
+  const value = await match(out).with({
+    ok: () => "ok",
+    err: (e) => e._tag,
+  });
+  assertEquals(value, "TimeoutError");
+  await delay(50, null);
+});
+
+Deno.test("fn timeoutMs aborts the handler's signal with the TimeoutError", async () => {
+  let signal: AbortSignal | undefined;
+  const slow = fn((n: number) => {
+    signal = Fect.signal();
+    return delay(50, n);
+  }, { timeoutMs: 5 });
+
+  await match(slow(1)).with({ ok: () => "ok", err: { TimeoutError: () => "timeout" } });
+  assertEquals(signal?.aborted, true);
+  assertEquals((signal?.reason as { _tag: string })._tag, "TimeoutError");
+  await delay(50, null);
+});
+
+Deno.test("Fect.timeout aborts the carrier it gives up on", async () => {
+  let signal: AbortSignal | undefined;
+  const load = fn((id: string) => {
+    signal = Fect.signal();
+    return delay(50, { id });
+  });
+
+  await match(Fect.timeout(load("42"), 5)).with({ ok: () => "ok", err: { TimeoutError: () => "timeout" } });
+  assertEquals(signal?.aborted, true);
+  await delay(50, null);
+});
+
+Deno.test("Fect.timeout bounds an existing async carrier", async () => {
+  const load = fn((id: string) => delay(50, { id }));
+
+  const value = await match(Fect.timeout(load("42"), 5)).with({
+    ok: (user) => user.id,
+    err: {
+      TimeoutError: () => "timeout",
+    },
+  });
+  assertEquals(value, "timeout");
+  await delay(50, null);
+});
+
+Deno.test("Fect.timeout passes sync carriers through", () => {
+  const out = ok(7);
+  assertEquals(Fect.timeout(out, 5), out);
+});
+
+if (false) {
+  const untimed = fn(async (n: number) => n);
+  const timed = fn(async (n: number) => n, { timeoutMs: 100 });
+
+  match(untimed(1)).with({
+    ok: (v) => v,
+    // @ts-expect-error TimeoutError is only present once timeoutMs is set
+    err: {
+      TimeoutError: () => 0,
+    },
+  });
+
+  match(timed(1)).with({
+    ok: (v) => v,
+    // @ts-expect-error TimeoutError branch must be required
+    err: {},
+  });
+
+  match(Fect.timeout(Promise.resolve(1), 100)).with({
+    ok: (v) => v,
+    err: {
+      TimeoutError: (e) => e.timeoutMs,
+    },
+  });
+}
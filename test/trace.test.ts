@@ -0,0 +1,99 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Fect, FectError, fn, match } from "../mod.ts";
+
+class NotFound extends FectError("NotFound")<{ id: string }>() {}
+
+const parse = fn((raw: string) => Number(raw), { name: "parse" });
+const load = fn(async (id: number) => {
+  if (id < 0) return NotFound.err({ id: String(id) });
+  return { id };
+}, { name: "load" });
+const label = fn(function label(user: { id: number }) {
+  return `user ${user.id}`;
+});
+
+Deno.test("every fn call becomes a span parented by its infected inputs", async () => {
+  const exporter = Fect.inMemoryExporter();
+  using _ = Fect.instrument(exporter);
+
+  const out = label(load(parse(Fect.ok("7"))));
+  assertEquals(await Fect.try(out), "user 7");
+
+  const [root] = exporter.tree();
+  assertEquals(root.name, "parse");
+  assertEquals(root.children.map((s) => [s.name, s.async, s.status]), [["load", true, "ok"]]);
+  assertEquals(root.children[0].children.map((s) => s.name), ["label"]);
+  assertEquals(new Set(exporter.spans.map((s) => s.traceId)).size, 1);
+});
+
+Deno.test("spans record the error tag of failed calls", async () => {
+  const exporter = Fect.inMemoryExporter();
+  using _ = Fect.instrument(exporter);
+
+  const boom = fn((user: { id: number }) => {
+    if (user.id > 0) throw new Error("kaboom");
+    return user;
+  }, { name: "boom" });
+  const out = boom(load(Fect.ok(-1)));
+  const crash = boom(Fect.ok({ id: 1 }));
+
+  await match(out).with({ ok: () => "", err: () => "" });
+  assertEquals(exporter.spans.map((s) => [s.name, s.status, s.errorTag]), [
+    ["load", "err", "NotFound"],
+    ["boom", "err", "NotFound"],
+    ["boom", "err", "UnknownException"],
+  ]);
+  assertEquals(exporter.spans[2].errorMessage, "kaboom");
+  void crash;
+});
+
+Deno.test("a traced call returning a stream leaves it for its consumer to read", async () => {
+  const exporter = Fect.inMemoryExporter();
+  using _ = Fect.instrument(exporter);
+
+  const range = fn((n: number) => Fect.stream([n, n + 1]), { name: "range" });
+  const double = fn((n: number) => n * 2, { name: "double" });
+  const numbers = range(1);
+  assertEquals(exporter.spans.map((s) => [s.name, s.status]), [["range", "unset"]]);
+
+  assertEquals(await Fect.try(double(numbers)), [2, 4]);
+  assertEquals(exporter.spans.find((s) => s.name === "range")?.status, "ok");
+});
+
+Deno.test("onCall and onSettle fire around each call and stop once removed", () => {
+  const events: string[] = [];
+  const handle = Fect.instrument({
+    onCall: (span) => events.push(`call ${span.name}`),
+    onSettle: (span) => events.push(`settle ${span.name} ${span.status}`),
+  });
+  label(Fect.ok({ id: 1 }));
+  handle.remove();
+  label(Fect.ok({ id: 2 }));
+  assertEquals(events, ["call label", "settle label ok"]);
+});
+
+Deno.test("Fect.all links every input span", () => {
+  const exporter = Fect.inMemoryExporter();
+  using _ = Fect.instrument(exporter);
+
+  const sum = fn((pair: [number, number]) => pair[0] + pair[1], { name: "sum" });
+  sum(Fect.all([parse(Fect.ok("1")), parse(Fect.ok("2"))]));
+
+  const [a, b, total] = exporter.spans;
+  assertEquals(total.parentSpanId, a.spanId);
+  assertEquals(total.links, [{ traceId: b.traceId, spanId: b.spanId }]);
+});
+
+Deno.test("toOtlpJson exports OpenTelemetry-shaped spans", () => {
+  const exporter = Fect.inMemoryExporter();
+  using _ = Fect.instrument(exporter);
+  parse(Fect.ok("3"));
+
+  const [span] = exporter.toOtlpJson("app").resourceSpans[0].scopeSpans[0].spans;
+  assertEquals(span.name, "parse");
+  assertEquals(span.traceId.length, 32);
+  assertEquals(span.spanId.length, 16);
+  assertEquals(span.status, { code: 1 });
+  assertEquals(span.attributes, [{ key: "fect.async", value: { boolValue: false } }]);
+  assertEquals(BigInt(span.endTimeUnixNano) >= BigInt(span.startTimeUnixNano), true);
+});
@@ -30,8 +30,6 @@ if (false) {
   match(out).with({
     ok: (value) => value,
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       A: () => 1,
       B: (e) => e.reason.length,
       C: (e) => e.code,
@@ -42,8 +40,6 @@ if (false) {
     ok: (value) => value,
     // @ts-expect-error missing C branch must fail compile
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       A: () => 1,
       B: (e: { _tag: "B"; reason: string }) => e.reason.length,
     },
@@ -52,8 +48,6 @@ if (false) {
   match(out).with({
     ok: (value) => value,
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       A: () => 1,
       B: (e: { _tag: "B"; reason: string }) => e.reason.length,
       C: (e: { _tag: "C"; code: number }) => e.code,
@@ -77,8 +71,6 @@ if (false) {
   match(narrowedAC).with({
     ok: (value) => value,
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       B: (e: { _tag: "B"; reason: string }) => e.reason.length,
     },
   });
@@ -86,8 +78,6 @@ if (false) {
   match(narrowedAC).with({
     ok: (value) => value,
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       B: (e: { _tag: "B"; reason: string }) => e.reason.length,
       // @ts-expect-error handled A branch must not be present anymore
       A: () => 0,
@@ -97,8 +87,6 @@ if (false) {
   match(narrowedAC).with({
     ok: (value) => value,
     err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
       B: (e: { _tag: "B"; reason: string }) => e.reason.length,
       // @ts-expect-error handled C branch must not be present anymore
       C: () => 0,
@@ -144,17 +132,13 @@ if (false) {
 
   match(out12).with({
     ok: (v) => v,
-    err: {
-      PromiseRejected: () => 0,
-      UnknownException: () => 0,
-    },
   });
 
   match(out12).with({
     ok: (v) => v,
-    // @ts-expect-error UnknownException branch must be required
+    // @ts-expect-error defects are not domain errors, so there is no err branch
     err: {
-      PromiseRejected: () => 0,
+      UnknownException: () => 0,
     },
   });
 }